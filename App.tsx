@@ -3,16 +3,30 @@ import { GestureHandlerRootView } from "react-native-gesture-handler";
 import { NavigationContainer } from "@react-navigation/native";
 import { createStackNavigator } from "@react-navigation/stack";
 import { StatusBar } from "expo-status-bar";
-import { StyleSheet } from "react-native";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
 
 // Import screens
 import { HomeScreen } from "./src/screens/HomeScreen";
 import { CreateGoalScreen } from "./src/screens/CreateGoalScreen";
+import { EditGoalScreen } from "./src/screens/EditGoalScreen";
+import { TrashScreen } from "./src/screens/TrashScreen";
+import { BackupScreen } from "./src/screens/BackupScreen";
+import { GoalDetailScreen } from "./src/screens/GoalDetailScreen";
+import { TemplatesScreen } from "./src/screens/TemplatesScreen";
+import { WorkingTimeScreen } from "./src/screens/WorkingTimeScreen";
+import { ClockProvider } from "./src/components/ClockProvider";
+import { StorageProvider } from "./src/components/StorageProvider";
 
 // Define navigation types
 export type RootStackParamList = {
   Home: undefined;
-  CreateGoal: undefined;
+  CreateGoal: { templateId?: string } | undefined;
+  EditGoal: { goalId: string };
+  GoalDetail: { goalId: string };
+  Trash: undefined;
+  Backup: undefined;
+  Templates: undefined;
+  WorkingTime: undefined;
 };
 
 const Stack = createStackNavigator<RootStackParamList>();
@@ -21,57 +35,187 @@ const Stack = createStackNavigator<RootStackParamList>();
  * Main App component with navigation setup
  * Uses Expo Navigation with stack navigator
  * Integrates all screens and handles navigation flow
+ * All countdowns follow the one clock from ClockProvider
+ * Screens get their repositories from StorageProvider
  */
 export default function App() {
   return (
     <GestureHandlerRootView>
-      <NavigationContainer>
-        <StatusBar style="auto" />
-        <Stack.Navigator
-          initialRouteName="Home"
-          screenOptions={{
-            headerStyle: {
-              backgroundColor: "#007AFF",
-            },
-            headerTintColor: "#fff",
-            headerTitleStyle: {
-              fontWeight: "bold",
-            },
-          }}
-        >
-          <Stack.Screen
-            name="Home"
-            component={HomeScreen}
-            options={{
-              title: "Goal Countdown Tracker",
-              headerStyle: {
-                backgroundColor: "#007AFF",
-              },
-              headerTintColor: "#fff",
-              headerTitleStyle: {
-                fontWeight: "bold",
-                fontSize: 18,
-              },
-            }}
-          />
-          <Stack.Screen
-            name="CreateGoal"
-            component={CreateGoalScreen}
-            options={{
-              title: "Create Goal",
-              headerStyle: {
-                backgroundColor: "#007AFF",
-              },
-              headerTintColor: "#fff",
-              headerTitleStyle: {
-                fontWeight: "bold",
-                fontSize: 18,
-              },
-              headerBackTitle: "Back",
-            }}
-          />
-        </Stack.Navigator>
-      </NavigationContainer>
+      <StorageProvider>
+        <ClockProvider>
+          <NavigationContainer>
+            <StatusBar style="auto" />
+            <Stack.Navigator
+              initialRouteName="Home"
+              screenOptions={{
+                headerStyle: {
+                  backgroundColor: "#007AFF",
+                },
+                headerTintColor: "#fff",
+                headerTitleStyle: {
+                  fontWeight: "bold",
+                },
+              }}
+            >
+              <Stack.Screen
+                name="Home"
+                component={HomeScreen}
+                options={({ navigation }) => ({
+                  title: "Goal Countdown Tracker",
+                  headerStyle: {
+                    backgroundColor: "#007AFF",
+                  },
+                  headerTintColor: "#fff",
+                  headerTitleStyle: {
+                    fontWeight: "bold",
+                    fontSize: 18,
+                  },
+                  headerRight: () => (
+                    <View style={styles.headerButtons}>
+                      <TouchableOpacity
+                        style={styles.headerButton}
+                        onPress={() => navigation.navigate("Templates")}
+                      >
+                        <Text style={styles.headerButtonText}>📋</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={styles.headerButton}
+                        onPress={() => navigation.navigate("WorkingTime")}
+                      >
+                        <Text style={styles.headerButtonText}>🕘</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={styles.headerButton}
+                        onPress={() => navigation.navigate("Backup")}
+                      >
+                        <Text style={styles.headerButtonText}>💾</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={styles.headerButton}
+                        onPress={() => navigation.navigate("Trash")}
+                      >
+                        <Text style={styles.headerButtonText}>🗄️</Text>
+                      </TouchableOpacity>
+                    </View>
+                  ),
+                })}
+              />
+              <Stack.Screen
+                name="CreateGoal"
+                component={CreateGoalScreen}
+                options={{
+                  title: "Create Goal",
+                  headerStyle: {
+                    backgroundColor: "#007AFF",
+                  },
+                  headerTintColor: "#fff",
+                  headerTitleStyle: {
+                    fontWeight: "bold",
+                    fontSize: 18,
+                  },
+                  headerBackTitle: "Back",
+                }}
+              />
+              <Stack.Screen
+                name="EditGoal"
+                component={EditGoalScreen}
+                options={{
+                  title: "Edit Goal",
+                  headerStyle: {
+                    backgroundColor: "#007AFF",
+                  },
+                  headerTintColor: "#fff",
+                  headerTitleStyle: {
+                    fontWeight: "bold",
+                    fontSize: 18,
+                  },
+                  headerBackTitle: "Back",
+                }}
+              />
+              <Stack.Screen
+                name="GoalDetail"
+                component={GoalDetailScreen}
+                options={{
+                  title: "Goal Details",
+                  headerStyle: {
+                    backgroundColor: "#007AFF",
+                  },
+                  headerTintColor: "#fff",
+                  headerTitleStyle: {
+                    fontWeight: "bold",
+                    fontSize: 18,
+                  },
+                  headerBackTitle: "Back",
+                }}
+              />
+              <Stack.Screen
+                name="Trash"
+                component={TrashScreen}
+                options={{
+                  title: "Archive & Trash",
+                  headerStyle: {
+                    backgroundColor: "#007AFF",
+                  },
+                  headerTintColor: "#fff",
+                  headerTitleStyle: {
+                    fontWeight: "bold",
+                    fontSize: 18,
+                  },
+                  headerBackTitle: "Back",
+                }}
+              />
+              <Stack.Screen
+                name="Backup"
+                component={BackupScreen}
+                options={{
+                  title: "Backup & Restore",
+                  headerStyle: {
+                    backgroundColor: "#007AFF",
+                  },
+                  headerTintColor: "#fff",
+                  headerTitleStyle: {
+                    fontWeight: "bold",
+                    fontSize: 18,
+                  },
+                  headerBackTitle: "Back",
+                }}
+              />
+              <Stack.Screen
+                name="Templates"
+                component={TemplatesScreen}
+                options={{
+                  title: "New from Template",
+                  headerStyle: {
+                    backgroundColor: "#007AFF",
+                  },
+                  headerTintColor: "#fff",
+                  headerTitleStyle: {
+                    fontWeight: "bold",
+                    fontSize: 18,
+                  },
+                  headerBackTitle: "Back",
+                }}
+              />
+              <Stack.Screen
+                name="WorkingTime"
+                component={WorkingTimeScreen}
+                options={{
+                  title: "Working Hours & Holidays",
+                  headerStyle: {
+                    backgroundColor: "#007AFF",
+                  },
+                  headerTintColor: "#fff",
+                  headerTitleStyle: {
+                    fontWeight: "bold",
+                    fontSize: 18,
+                  },
+                  headerBackTitle: "Back",
+                }}
+              />
+            </Stack.Navigator>
+          </NavigationContainer>
+        </ClockProvider>
+      </StorageProvider>
     </GestureHandlerRootView>
   );
 }
@@ -81,4 +225,14 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: "#fff",
   },
+  headerButtons: {
+    flexDirection: "row",
+    paddingRight: 8,
+  },
+  headerButton: {
+    paddingHorizontal: 8,
+  },
+  headerButtonText: {
+    fontSize: 20,
+  },
 });
@@ -0,0 +1,81 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+} from 'react-native';
+import { BulkAction } from '../utils/bulkEdit';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  onAction: (action: BulkAction) => void;
+}
+
+// Buttons in the bar, in display order
+const ACTIONS: { action: BulkAction; icon: string; label: string }[] = [
+  { action: 'achieve', icon: '🏁', label: 'Achieved' },
+  { action: 'extend', icon: '⏩', label: 'Extend' },
+  { action: 'tag', icon: '🏷️', label: 'Tag' },
+  { action: 'archive', icon: '📦', label: 'Archive' },
+  { action: 'trash', icon: '🗑️', label: 'Delete' },
+];
+
+/**
+ * BulkActionBar component shows the actions for the goals selected on HomeScreen
+ * Buttons are disabled until at least one goal is selected
+ */
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedCount,
+  onAction,
+}) => {
+  const isDisabled = selectedCount === 0;
+
+  return (
+    <View style={styles.container}>
+      {ACTIONS.map(({ action, icon, label }) => (
+        <TouchableOpacity
+          key={action}
+          style={[styles.actionButton, isDisabled && styles.actionButtonDisabled]}
+          onPress={() => onAction(action)}
+          disabled={isDisabled}
+        >
+          <Text style={styles.actionIcon}>{icon}</Text>
+          <Text style={[styles.actionLabel, action === 'trash' && styles.destructiveLabel]}>
+            {label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    backgroundColor: 'white',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#E9ECEF',
+  },
+  actionButton: {
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  actionButtonDisabled: {
+    opacity: 0.4,
+  },
+  actionIcon: {
+    fontSize: 20,
+  },
+  actionLabel: {
+    fontSize: 11,
+    color: '#333',
+    marginTop: 2,
+  },
+  destructiveLabel: {
+    color: '#FF3B30',
+  },
+});
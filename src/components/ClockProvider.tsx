@@ -0,0 +1,63 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+import { Clock, ClockResolution, isSameMinute } from '../utils/clock';
+
+const ClockContext = createContext<Clock | null>(null);
+
+interface ClockProviderProps {
+  children: React.ReactNode;
+}
+
+/**
+ * ClockProvider component shares one clock with every countdown below it
+ * The clock pauses while the app is in the background and catches up when it returns
+ */
+export const ClockProvider: React.FC<ClockProviderProps> = ({ children }) => {
+  const [clock] = useState(() => new Clock());
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        clock.resume();
+      } else {
+        clock.pause();
+      }
+    });
+
+    return () => {
+      subscription.remove();
+      clock.pause();
+    };
+  }, [clock]);
+
+  return <ClockContext.Provider value={clock}>{children}</ClockContext.Provider>;
+};
+
+/**
+ * Current time from the shared clock, updated on every tick
+ * With 'minute' resolution the component only re-renders when the minute changes
+ * @param resolution - How often the returned time should change
+ * @returns Date - Time of the latest tick
+ */
+export const useNow = (resolution: ClockResolution = 'second'): Date => {
+  const clock = useContext(ClockContext);
+  if (!clock) {
+    throw new Error('useNow must be used inside a ClockProvider');
+  }
+
+  const [now, setNow] = useState<Date>(() => clock.now());
+
+  useEffect(() => {
+    const update = (tickAt: Date) => {
+      setNow(previous =>
+        resolution === 'minute' && isSameMinute(previous, tickAt) ? previous : tickAt
+      );
+    };
+
+    // Catch up with time that passed before subscribing
+    update(clock.now());
+    return clock.subscribe(update);
+  }, [clock, resolution]);
+
+  return now;
+};
@@ -1,9 +1,15 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useEffect, useRef } from 'react';
 import { View, Text, StyleSheet } from 'react-native';
+import { useNow } from './ClockProvider';
+import { CountdownMode } from '../storage/storage';
+import { formatInTimeZone } from '../utils/timezone';
+import { WorkingCalendar, countBusinessDays, getWorkingMilliseconds } from '../utils/workingTime';
 
 interface CountdownProps {
-  deadlineDate: string; // YYYY-MM-DD format
-  deadlineTime: string; // HH:MM format (24-hour)
+  deadlineAt: string; // ISO timestamp of the deadline instant
+  mode?: CountdownMode; // Business days and working hours are shown next to the calendar time
+  workingCalendar?: WorkingCalendar; // Required for the working-time modes
+  countUp?: boolean; // Show the time elapsed since deadlineAt instead, for count-up trackers
   onExpired?: () => void;
 }
 
@@ -12,48 +18,52 @@ interface TimeRemaining {
   hours: number;
   minutes: number;
   seconds: number;
-  total: number; // Total milliseconds remaining
+  total: number; // Total milliseconds remaining, negative once the deadline has passed
 }
 
+// Countdowns further than this from their deadline on either side, and count-ups running
+// longer than this, update once a minute and hide the seconds
+const MINUTE_RESOLUTION_THRESHOLD_MS = 24 * 60 * 60 * 1000;
+
 /**
  * Countdown component with real-time timer logic
- * Updates every second using setInterval
- * Handles edge cases like expired deadlines
+ * Follows the shared clock from ClockProvider rather than running its own timer,
+ * every second near the deadline and every minute further away
+ * In a working-time mode, also shows the business days or working hours left
+ * Count-up trackers show the time elapsed in the same format and never expire
+ * Past the deadline it keeps running as a negative timer showing how long the goal is overdue
  * All calculations done manually without third-party libraries
  */
 export const Countdown: React.FC<CountdownProps> = ({
-  deadlineDate,
-  deadlineTime,
+  deadlineAt,
+  mode = 'calendar',
+  workingCalendar,
+  countUp = false,
   onExpired,
 }) => {
-  const [timeRemaining, setTimeRemaining] = useState<TimeRemaining>({
-    days: 0,
-    hours: 0,
-    minutes: 0,
-    seconds: 0,
-    total: 0,
-  });
-  const [isExpired, setIsExpired] = useState<boolean>(false);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const isFarFromDeadline = (
+    countUp || CountdownUtils.isExpired(deadlineAt)
+      ? CountdownUtils.getTimeElapsed(deadlineAt)
+      : CountdownUtils.getTimeRemaining(deadlineAt)
+  ) > MINUTE_RESOLUTION_THRESHOLD_MS;
+  const now = useNow(isFarFromDeadline ? 'minute' : 'second');
 
   /**
-   * Calculate time remaining until deadline
+   * Calculate time remaining until deadline, or elapsed since it when counting up
+   * Once the deadline has passed the units hold the time overdue and the total goes negative
    * Uses manual Date calculations without external libraries
+   * The deadline is an absolute instant, so the result doesn't depend on the device's zone
    */
   const calculateTimeRemaining = (): TimeRemaining => {
     try {
-      // Parse deadline date and time
-      const [year, month, day] = deadlineDate.split('-').map(Number);
-      const [hour, minute] = deadlineTime.split(':').map(Number);
-      
-      // Create deadline Date object (month is 0-indexed in Date constructor)
-      const deadline = new Date(year, month - 1, day, hour, minute, 0, 0);
-      const now = new Date();
+      const deadline = new Date(deadlineAt);
       
       // Calculate difference in milliseconds
-      const difference = deadline.getTime() - now.getTime();
+      const difference = countUp
+        ? now.getTime() - deadline.getTime()
+        : deadline.getTime() - now.getTime();
       
-      if (difference <= 0) {
+      if (countUp && difference <= 0) {
         return {
           days: 0,
           hours: 0,
@@ -64,10 +74,11 @@ export const Countdown: React.FC<CountdownProps> = ({
       }
       
       // Convert milliseconds to days, hours, minutes, seconds
-      const days = Math.floor(difference / (1000 * 60 * 60 * 24));
-      const hours = Math.floor((difference % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
-      const minutes = Math.floor((difference % (1000 * 60 * 60)) / (1000 * 60));
-      const seconds = Math.floor((difference % (1000 * 60)) / 1000);
+      const span = Math.abs(difference);
+      const days = Math.floor(span / (1000 * 60 * 60 * 24));
+      const hours = Math.floor((span % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
+      const minutes = Math.floor((span % (1000 * 60 * 60)) / (1000 * 60));
+      const seconds = Math.floor((span % (1000 * 60)) / 1000);
       
       return {
         days,
@@ -88,47 +99,18 @@ export const Countdown: React.FC<CountdownProps> = ({
     }
   };
 
-  /**
-   * Update countdown display
-   * Called every second via setInterval
-   */
-  const updateCountdown = () => {
-    const remaining = calculateTimeRemaining();
-    setTimeRemaining(remaining);
-    
-    // Check if expired
-    if (remaining.total <= 0 && !isExpired) {
-      setIsExpired(true);
-      if (onExpired) {
-        onExpired();
-      }
-    }
-  };
-
-  // Start/stop countdown timer
-  useEffect(() => {
-    // Initial calculation
-    updateCountdown();
-    
-    // Set up interval for updates every second
-    intervalRef.current = setInterval(updateCountdown, 1000);
-    
-    // Cleanup interval on unmount
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-    };
-  }, [deadlineDate, deadlineTime]);
+  const timeRemaining = calculateTimeRemaining();
+  const isExpired = !countUp && timeRemaining.total <= 0;
+  // Starts at the first render's state so goals that mount already expired don't report it again
+  const expiredRef = useRef<boolean>(isExpired);
 
-  // Cleanup interval when component unmounts
+  // Track expiry on every tick so an edited deadline recalculates right away
   useEffect(() => {
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-    };
-  }, []);
+    if (isExpired && !expiredRef.current && onExpired) {
+      onExpired();
+    }
+    expiredRef.current = isExpired;
+  }, [isExpired]);
 
   /**
    * Format time unit with leading zero if needed
@@ -138,24 +120,26 @@ export const Countdown: React.FC<CountdownProps> = ({
   };
 
   /**
-   * Get display text for countdown
+   * Get display text for countdown, with a minus sign once overdue
    */
   const getCountdownText = (): string => {
-    if (isExpired) {
-      return 'Expired';
-    }
-    
-    return `${formatTimeUnit(timeRemaining.days)} days : ${formatTimeUnit(timeRemaining.hours)} hrs : ${formatTimeUnit(timeRemaining.minutes)} min : ${formatTimeUnit(timeRemaining.seconds)} sec`;
+    const text = `${isExpired ? '-' : ''}${formatTimeUnit(timeRemaining.days)} days : ${formatTimeUnit(timeRemaining.hours)} hrs : ${formatTimeUnit(timeRemaining.minutes)} min`;
+    // Seconds only change once a minute this far from the deadline
+    return isFarFromDeadline ? text : `${text} : ${formatTimeUnit(timeRemaining.seconds)} sec`;
   };
 
   /**
-   * Get compact countdown text for smaller displays
+   * Get compact countdown text for smaller displays, e.g. "Overdue by 2d 4h 10m" once overdue
    */
   const getCompactCountdownText = (): string => {
-    if (isExpired) {
-      return 'Expired';
-    }
-    
+    const text = getCompactDurationText();
+    return isExpired ? `Overdue by ${text}` : text;
+  };
+
+  /**
+   * Get the largest units of the time remaining or overdue
+   */
+  const getCompactDurationText = (): string => {
     if (timeRemaining.days > 0) {
       return `${timeRemaining.days}d ${timeRemaining.hours}h ${timeRemaining.minutes}m`;
     } else if (timeRemaining.hours > 0) {
@@ -167,38 +151,21 @@ export const Countdown: React.FC<CountdownProps> = ({
     }
   };
 
-  /**
-   * Calculate progress percentage (0-100)
-   * Useful for progress bars or visual indicators
-   */
-  const getProgressPercentage = (): number => {
-    if (isExpired) return 100;
-    
-    try {
-      const [year, month, day] = deadlineDate.split('-').map(Number);
-      const [hour, minute] = deadlineTime.split(':').map(Number);
-      const deadline = new Date(year, month - 1, day, hour, minute, 0, 0);
-      const now = new Date();
-      
-      // Calculate total duration from creation to deadline
-      // For simplicity, we'll use a default duration if we don't have creation time
-      const totalDuration = 7 * 24 * 60 * 60 * 1000; // 7 days default
-      const elapsed = totalDuration - timeRemaining.total;
-      
-      return Math.min(100, Math.max(0, (elapsed / totalDuration) * 100));
-    } catch (error) {
-      return 0;
-    }
-  };
+  const workingTimeText = !isExpired && !countUp && workingCalendar
+    ? CountdownUtils.formatWorkingTimeRemaining(deadlineAt, mode, workingCalendar, now)
+    : null;
 
   return (
     <View style={styles.container}>
-      <Text style={[styles.countdownText, isExpired && styles.expiredText]}>
+      <Text style={[styles.countdownText, isExpired && styles.overdueText]}>
         {getCountdownText()}
       </Text>
-      <Text style={[styles.compactText, isExpired && styles.expiredText]}>
+      <Text style={[styles.compactText, isExpired && styles.overdueText]}>
         {getCompactCountdownText()}
       </Text>
+      {workingTimeText && (
+        <Text style={styles.workingText}>{workingTimeText}</Text>
+      )}
     </View>
   );
 };
@@ -220,22 +187,33 @@ const styles = StyleSheet.create({
     color: '#666',
     textAlign: 'center',
   },
-  expiredText: {
+  overdueText: {
     color: '#FF3B30',
     fontWeight: 'bold',
   },
+  workingText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1976D2',
+    textAlign: 'center',
+    marginTop: 4,
+  },
 });
 
+// Share of the time used up from which the progress bar turns orange, then red
+const URGENCY_THRESHOLDS = [
+  { percentage: 90, color: '#FF3B30' },
+  { percentage: 75, color: '#FF9500' },
+];
+
 // Export utility functions for use in other components
 export const CountdownUtils = {
   /**
    * Check if a deadline has passed
    */
-  isExpired: (deadlineDate: string, deadlineTime: string): boolean => {
+  isExpired: (deadlineAt: string): boolean => {
     try {
-      const [year, month, day] = deadlineDate.split('-').map(Number);
-      const [hour, minute] = deadlineTime.split(':').map(Number);
-      const deadline = new Date(year, month - 1, day, hour, minute, 0, 0);
+      const deadline = new Date(deadlineAt);
       const now = new Date();
       return deadline.getTime() <= now.getTime();
     } catch (error) {
@@ -246,11 +224,9 @@ export const CountdownUtils = {
   /**
    * Get time remaining in milliseconds
    */
-  getTimeRemaining: (deadlineDate: string, deadlineTime: string): number => {
+  getTimeRemaining: (deadlineAt: string): number => {
     try {
-      const [year, month, day] = deadlineDate.split('-').map(Number);
-      const [hour, minute] = deadlineTime.split(':').map(Number);
-      const deadline = new Date(year, month - 1, day, hour, minute, 0, 0);
+      const deadline = new Date(deadlineAt);
       const now = new Date();
       return Math.max(0, deadline.getTime() - now.getTime());
     } catch (error) {
@@ -259,30 +235,97 @@ export const CountdownUtils = {
   },
 
   /**
-   * Format deadline date and time for display
+   * Get time elapsed since an instant in milliseconds
+   * For count-up trackers, and for how long a passed deadline is overdue
    */
-  formatDeadline: (deadlineDate: string, deadlineTime: string): string => {
+  getTimeElapsed: (startAt: string): number => {
     try {
-      const [year, month, day] = deadlineDate.split('-').map(Number);
-      const [hour, minute] = deadlineTime.split(':').map(Number);
-      
-      const date = new Date(year, month - 1, day);
-      const time = new Date(0, 0, 0, hour, minute);
-      
-      const dateStr = date.toLocaleDateString('en-US', {
-        weekday: 'short',
-        year: 'numeric',
-        month: 'short',
-        day: 'numeric',
-      });
-      
-      const timeStr = time.toLocaleTimeString('en-US', {
-        hour: 'numeric',
-        minute: '2-digit',
-        hour12: true,
-      });
-      
-      return `${dateStr} at ${timeStr}`;
+      const start = new Date(startAt);
+      const now = new Date();
+      return Math.max(0, now.getTime() - start.getTime());
+    } catch (error) {
+      return 0;
+    }
+  },
+
+  /**
+   * Get the working days left after today, up to and including the deadline's day
+   */
+  getBusinessDaysRemaining: (deadlineAt: string, calendar: WorkingCalendar, now: Date = new Date()): number => {
+    try {
+      return countBusinessDays(now, new Date(deadlineAt), calendar);
+    } catch (error) {
+      return 0;
+    }
+  },
+
+  /**
+   * Get working time remaining in milliseconds, counting only the schedule's hours
+   */
+  getWorkingTimeRemaining: (deadlineAt: string, calendar: WorkingCalendar, now: Date = new Date()): number => {
+    try {
+      return getWorkingMilliseconds(now, new Date(deadlineAt), calendar);
+    } catch (error) {
+      return 0;
+    }
+  },
+
+  /**
+   * Describe the working time left, e.g. "3 working days left" or "21h 30m of working time left"
+   * @returns string | null - null in calendar mode
+   */
+  formatWorkingTimeRemaining: (
+    deadlineAt: string,
+    mode: CountdownMode,
+    calendar: WorkingCalendar,
+    now: Date = new Date()
+  ): string | null => {
+    if (mode === 'businessDays') {
+      const days = CountdownUtils.getBusinessDaysRemaining(deadlineAt, calendar, now);
+      return days === 0 ? 'No working days left' : `${days} working ${days === 1 ? 'day' : 'days'} left`;
+    }
+    if (mode === 'workingHours') {
+      const totalMinutes = Math.floor(CountdownUtils.getWorkingTimeRemaining(deadlineAt, calendar, now) / 60000);
+      return totalMinutes === 0
+        ? 'No working time left'
+        : `${Math.floor(totalMinutes / 60)}h ${totalMinutes % 60}m of working time left`;
+    }
+    return null;
+  },
+
+  /**
+   * Calculate the share of the time between start and deadline that has passed (0-100)
+   * @param startAt - ISO timestamp the countdown started from
+   * @param deadlineAt - ISO timestamp of the deadline
+   */
+  getProgressPercentage: (startAt: string, deadlineAt: string, now: Date = new Date()): number => {
+    try {
+      const start = new Date(startAt).getTime();
+      const deadline = new Date(deadlineAt).getTime();
+      if (now.getTime() >= deadline) return 100;
+      if (deadline <= start) return 0;
+
+      const elapsed = now.getTime() - start;
+      return Math.min(100, Math.max(0, (elapsed / (deadline - start)) * 100));
+    } catch (error) {
+      return 0;
+    }
+  },
+
+  /**
+   * Progress bar color for the share of time used up
+   */
+  getUrgencyColor: (percentage: number): string => {
+    const threshold = URGENCY_THRESHOLDS.find(({ percentage: min }) => percentage >= min);
+    return threshold ? threshold.color : '#007AFF';
+  },
+
+  /**
+   * Format deadline for display as it reads on the wall clock of a time zone
+   */
+  formatDeadline: (deadlineAt: string, timeZone: string): string => {
+    try {
+      return formatInTimeZone(new Date(deadlineAt), timeZone);
     } catch (error) {
       return 'Invalid Date';
     }
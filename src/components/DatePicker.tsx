@@ -13,6 +13,7 @@ interface DatePickerProps {
   selectedDate: string; // YYYY-MM-DD format
   onDateChange: (date: string) => void;
   placeholder?: string;
+  yearsBack?: number; // Past years offered, for dates that already happened
 }
 
 interface DateOption {
@@ -29,6 +30,7 @@ export const DatePicker: React.FC<DatePickerProps> = ({
   selectedDate,
   onDateChange,
   placeholder = 'Select Date',
+  yearsBack = 0,
 }) => {
   const [isVisible, setIsVisible] = useState(false);
   const [selectedDay, setSelectedDay] = useState<number>(1);
@@ -77,12 +79,12 @@ export const DatePicker: React.FC<DatePickerProps> = ({
     }));
   };
 
-  // Generate options for years (current year to 10 years ahead)
+  // Generate options for years (yearsBack years ago to 10 years ahead)
   const generateYearOptions = (): DateOption[] => {
-    const currentYear = new Date().getFullYear();
-    return Array.from({ length: 11 }, (_, i) => ({
-      value: currentYear + i,
-      label: (currentYear + i).toString(),
+    const firstYear = new Date().getFullYear() - yearsBack;
+    return Array.from({ length: yearsBack + 11 }, (_, i) => ({
+      value: firstYear + i,
+      label: (firstYear + i).toString(),
     }));
   };
 
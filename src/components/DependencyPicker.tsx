@@ -0,0 +1,102 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+} from 'react-native';
+import { Goal } from '../storage/storage';
+
+interface DependencyPickerProps {
+  goals: Goal[]; // Goals that can be picked, from getDependencyCandidates
+  selectedIds: string[];
+  onSelectionChange: (ids: string[]) => void;
+}
+
+/**
+ * DependencyPicker component toggles which goals have to finish before this one
+ */
+export const DependencyPicker: React.FC<DependencyPickerProps> = ({
+  goals,
+  selectedIds,
+  onSelectionChange,
+}) => {
+  /**
+   * Add or remove a dependency
+   */
+  const handleToggle = (goalId: string) => {
+    onSelectionChange(
+      selectedIds.includes(goalId)
+        ? selectedIds.filter(id => id !== goalId)
+        : [...selectedIds, goalId]
+    );
+  };
+
+  if (goals.length === 0) {
+    return <Text style={styles.hint}>No other active goals to depend on.</Text>;
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.chipRow}>
+        {goals.map(goal => {
+          const isSelected = selectedIds.includes(goal.id);
+          return (
+            <TouchableOpacity
+              key={goal.id}
+              style={[styles.chip, isSelected && styles.chipSelected]}
+              onPress={() => handleToggle(goal.id)}
+            >
+              <Text
+                style={[styles.chipText, isSelected && styles.chipTextSelected]}
+                numberOfLines={1}
+              >
+                {goal.title}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      <Text style={styles.hint}>
+        This goal shows as blocked until the selected goals are finished.
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginVertical: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    maxWidth: '100%',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#F0F0F0',
+    borderWidth: 1,
+    borderColor: '#DDD',
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#666',
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: 'white',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 8,
+  },
+});
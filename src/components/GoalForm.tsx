@@ -0,0 +1,428 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+} from 'react-native';
+import { DatePicker } from './DatePicker';
+import { TimePicker } from './TimePicker';
+import { RecurrencePicker } from './RecurrencePicker';
+import { MilestoneEditor } from './MilestoneEditor';
+import { TagEditor } from './TagEditor';
+import { ReminderPicker } from './ReminderPicker';
+import { DependencyPicker } from './DependencyPicker';
+import { CountdownMode, Goal, GoalKind } from '../storage/storage';
+import { GoalFormValues } from '../utils/validation';
+import { formatInTimeZone, getDeviceTimeZone, zonedTimeToUtc } from '../utils/timezone';
+import { describeRecurrence, normalizeRecurrenceRule } from '../utils/recurrence';
+import { getDeadlineConflicts, getDependencyCandidates } from '../utils/dependencies';
+import { COUNTDOWN_MODE_LABELS } from '../utils/workingTime';
+
+const COUNTDOWN_MODES: CountdownMode[] = ['calendar', 'businessDays', 'workingHours'];
+
+const GOAL_KINDS: { value: GoalKind; label: string }[] = [
+  { value: 'countdown', label: 'Count down to a deadline' },
+  { value: 'countUp', label: 'Count up from a date' },
+];
+
+// Past years offered when picking the date a count-up tracker started
+const COUNT_UP_YEARS_BACK = 30;
+
+interface GoalFormProps {
+  values: GoalFormValues;
+  onChange: (values: GoalFormValues) => void;
+  goalId?: string; // Goal being edited, undefined while creating one
+  goals?: Goal[]; // Other goals, offered as dependencies
+}
+
+/**
+ * GoalForm component renders the shared goal input fields
+ * Used by CreateGoalScreen and EditGoalScreen
+ * Fully controlled - the parent screen owns the form state
+ * Warns when the deadline falls before one of the goals it depends on
+ * Count-up trackers only ask for the date and time they count from
+ */
+export const GoalForm: React.FC<GoalFormProps> = ({
+  values,
+  onChange,
+  goalId,
+  goals = [],
+}) => {
+  const { title, description, deadlineDate, deadlineTime, timeZone } = values;
+  const isCountUp = values.kind === 'countUp';
+  const deviceTimeZone = getDeviceTimeZone();
+  const dependencyCandidates = getDependencyCandidates(goalId, values.dependsOn, goals);
+  const deadlineConflicts = deadlineDate && deadlineTime
+    ? getDeadlineConflicts(zonedTimeToUtc(deadlineDate, deadlineTime, timeZone), values.dependsOn, goals)
+    : [];
+
+  /**
+   * Update a single field while keeping the rest of the values
+   */
+  const setField = <K extends keyof GoalFormValues>(field: K, value: GoalFormValues[K]) => {
+    onChange({ ...values, [field]: value });
+  };
+
+  /**
+   * Switch between countdown and count-up
+   * Count-up trackers drop the fields that only make sense with a deadline
+   */
+  const handleKindChange = (kind: GoalKind) => {
+    onChange(kind === 'countUp'
+      ? {
+        ...values,
+        kind,
+        startDate: '',
+        recurrence: null,
+        targetValue: '',
+        unit: '',
+        countdownMode: 'calendar',
+        dependsOn: [],
+        milestones: [],
+      }
+      : { ...values, kind });
+  };
+
+  return (
+    <View style={styles.form}>
+      {/* Title Input */}
+      <View style={styles.inputGroup}>
+        <Text style={styles.label}>Goal Title *</Text>
+        <TextInput
+          style={styles.textInput}
+          value={title}
+          onChangeText={(text) => setField('title', text)}
+          placeholder="Enter your goal title"
+          placeholderTextColor="#999"
+          maxLength={100}
+        />
+        <Text style={styles.characterCount}>
+          {title.length}/100 characters
+        </Text>
+      </View>
+
+      {/* Description Input */}
+      <View style={styles.inputGroup}>
+        <Text style={styles.label}>Description (Optional)</Text>
+        <TextInput
+          style={[styles.textInput, styles.textArea]}
+          value={description}
+          onChangeText={(text) => setField('description', text)}
+          placeholder="Describe your goal in detail"
+          placeholderTextColor="#999"
+          multiline
+          numberOfLines={4}
+          maxLength={500}
+          textAlignVertical="top"
+        />
+        <Text style={styles.characterCount}>
+          {description.length}/500 characters
+        </Text>
+      </View>
+
+      {/* Tags */}
+      <View style={styles.inputGroup}>
+        <Text style={styles.label}>Tags (Optional)</Text>
+        <TagEditor
+          tags={values.tags}
+          onTagsChange={(tags) => setField('tags', tags)}
+        />
+      </View>
+
+      {/* Kind */}
+      <View style={styles.inputGroup}>
+        <Text style={styles.label}>Kind</Text>
+        <View style={styles.chipRow}>
+          {GOAL_KINDS.map(({ value, label }) => {
+            const isSelected = values.kind === value;
+            return (
+              <TouchableOpacity
+                key={value}
+                style={[styles.chip, isSelected && styles.chipSelected]}
+                onPress={() => handleKindChange(value)}
+              >
+                <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+
+      {/* Date Picker */}
+      <View style={styles.inputGroup}>
+        <Text style={styles.label}>{isCountUp ? 'Counting Since *' : 'Deadline Date *'}</Text>
+        <DatePicker
+          selectedDate={deadlineDate}
+          onDateChange={(date) => setField('deadlineDate', date)}
+          placeholder={isCountUp ? 'Select start date' : 'Select deadline date'}
+          yearsBack={isCountUp ? COUNT_UP_YEARS_BACK : 0}
+        />
+      </View>
+
+      {/* Time Picker */}
+      <View style={styles.inputGroup}>
+        <Text style={styles.label}>{isCountUp ? 'Start Time *' : 'Deadline Time *'}</Text>
+        <TimePicker
+          selectedTime={deadlineTime}
+          onTimeChange={(time) => setField('deadlineTime', time)}
+          placeholder={isCountUp ? 'Select start time' : 'Select deadline time'}
+        />
+      </View>
+
+      {/* Countdown-only fields - count-up trackers have no deadline */}
+      {!isCountUp && (
+        <>
+          {/* Start Date */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Start Date (Optional)</Text>
+            <DatePicker
+              selectedDate={values.startDate}
+              onDateChange={(date) => setField('startDate', date)}
+              placeholder="When the goal was created"
+            />
+            {values.startDate ? (
+              <TouchableOpacity onPress={() => setField('startDate', '')}>
+                <Text style={styles.clearText}>Clear start date</Text>
+              </TouchableOpacity>
+            ) : (
+              <Text style={styles.hint}>
+                The progress bar counts the time from this day to the deadline.
+              </Text>
+            )}
+          </View>
+
+          {/* Recurrence */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Repeat</Text>
+            <RecurrencePicker
+              rule={values.recurrence}
+              onRuleChange={(rule) => setField('recurrence', rule)}
+            />
+          </View>
+
+          {/* Target */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Target (Optional)</Text>
+            <View style={styles.targetRow}>
+              <TextInput
+                style={[styles.textInput, styles.targetValueInput]}
+                value={values.targetValue}
+                onChangeText={(text) => setField('targetValue', text)}
+                placeholder="e.g. 24"
+                placeholderTextColor="#999"
+                keyboardType="numeric"
+              />
+              <TextInput
+                style={[styles.textInput, styles.targetUnitInput]}
+                value={values.unit}
+                onChangeText={(text) => setField('unit', text)}
+                placeholder="Unit, e.g. books"
+                placeholderTextColor="#999"
+                maxLength={20}
+              />
+            </View>
+            <Text style={styles.hint}>
+              For goals you can count. Log progress from the goal list.
+            </Text>
+          </View>
+
+          {/* Countdown Mode */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Count Down In</Text>
+            <View style={styles.chipRow}>
+              {COUNTDOWN_MODES.map(mode => {
+                const isSelected = values.countdownMode === mode;
+                return (
+                  <TouchableOpacity
+                    key={mode}
+                    style={[styles.chip, isSelected && styles.chipSelected]}
+                    onPress={() => setField('countdownMode', mode)}
+                  >
+                    <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                      {COUNTDOWN_MODE_LABELS[mode]}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            {values.countdownMode !== 'calendar' && (
+              <Text style={styles.hint}>
+                Working time is shown next to the calendar countdown. Set your work schedule and
+                holidays under Working Hours & Holidays.
+              </Text>
+            )}
+          </View>
+
+          {/* Reminders */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Reminders</Text>
+            <ReminderPicker
+              offsets={values.reminderOffsets}
+              onOffsetsChange={(offsets) => setField('reminderOffsets', offsets)}
+            />
+          </View>
+
+          {/* Dependencies */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Depends On (Optional)</Text>
+            <DependencyPicker
+              goals={dependencyCandidates}
+              selectedIds={values.dependsOn}
+              onSelectionChange={(ids) => setField('dependsOn', ids)}
+            />
+            {deadlineConflicts.map(goal => (
+              <Text key={goal.id} style={styles.warningText}>
+                ⚠️ This deadline is before "{goal.title}" is due
+                ({formatInTimeZone(new Date(goal.deadlineAt), timeZone)}).
+              </Text>
+            ))}
+          </View>
+
+          {/* Milestones */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Milestones (Optional)</Text>
+            <MilestoneEditor
+              milestones={values.milestones}
+              onMilestonesChange={(milestones) => setField('milestones', milestones)}
+            />
+          </View>
+        </>
+      )}
+
+      {/* Preview */}
+      {(deadlineDate && deadlineTime) && (
+        <View style={styles.previewContainer}>
+          <Text style={styles.previewTitle}>Preview</Text>
+          <Text style={styles.previewText}>
+            {isCountUp ? 'Counting since' : 'Deadline'}: {formatInTimeZone(zonedTimeToUtc(deadlineDate, deadlineTime, timeZone), timeZone)}
+          </Text>
+          {values.recurrence && (
+            <Text style={styles.previewText}>
+              {describeRecurrence(
+                normalizeRecurrenceRule(values.recurrence, deadlineDate),
+                deadlineDate
+              )}
+            </Text>
+          )}
+          {timeZone !== deviceTimeZone && (
+            <Text style={styles.previewZoneText}>
+              Times are in {timeZone}. Your device is in {deviceTimeZone}.
+            </Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  form: {
+    padding: 20,
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: '#DDD',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    backgroundColor: 'white',
+    color: '#333',
+  },
+  textArea: {
+    height: 100,
+    textAlignVertical: 'top',
+  },
+  targetRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  targetValueInput: {
+    flex: 1,
+  },
+  targetUnitInput: {
+    flex: 2,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#F0F0F0',
+    borderWidth: 1,
+    borderColor: '#DDD',
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#666',
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: 'white',
+  },
+  clearText: {
+    fontSize: 12,
+    color: '#007AFF',
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  warningText: {
+    fontSize: 12,
+    color: '#FF9500',
+    fontWeight: '500',
+    marginTop: 4,
+  },
+  characterCount: {
+    fontSize: 12,
+    color: '#999',
+    textAlign: 'right',
+    marginTop: 4,
+  },
+  previewContainer: {
+    backgroundColor: '#E3F2FD',
+    padding: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#BBDEFB',
+  },
+  previewTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#1976D2',
+    marginBottom: 4,
+  },
+  previewText: {
+    fontSize: 14,
+    color: '#1976D2',
+  },
+  previewZoneText: {
+    fontSize: 12,
+    color: '#1976D2',
+    marginTop: 4,
+    fontStyle: 'italic',
+  },
+});
@@ -6,42 +6,127 @@ import {
   TouchableOpacity,
   Alert,
 } from 'react-native';
-import { Goal } from '../storage/storage';
+import { Goal, GoalStatus } from '../storage/storage';
 import { Countdown, CountdownUtils } from './Countdown';
+import { TagChip } from './TagChip';
+import { HighlightedText } from './HighlightedText';
+import { ProgressBar } from './ProgressBar';
+import { useNow } from './ClockProvider';
+import { TAG_COLORS } from '../storage/tags';
+import { DEFAULT_WORK_SCHEDULE, WorkSchedule } from '../storage/settings';
+import { getDeviceTimeZone } from '../utils/timezone';
+import { describeRecurrence } from '../utils/recurrence';
+import { getMilestoneProgress, getNextOpenMilestone } from '../utils/milestones';
+import { GOAL_STATE_BADGES, getGoalDisplayState } from '../utils/goalStatus';
+import { describeDeadlineDrift } from '../utils/history';
+import { findMatches } from '../utils/search';
+import { formatStreakLength, getLongestStreakLength, isCountUp } from '../utils/streaks';
+import {
+  PACE_COLORS,
+  PACE_LABELS,
+  describeProgress,
+  describeRequiredRate,
+  getGoalStartAt,
+  getPace,
+} from '../utils/progress';
 
 interface GoalItemProps {
   goal: Goal;
+  tagColors?: Record<string, string>; // Tag colors by lower-cased tag name
+  searchTerms?: string[]; // Highlighted in the title, description and tags
+  blockedBy?: Goal[]; // Unfinished goals this goal depends on
+  workSchedule?: WorkSchedule; // For goals counting business days or working hours
+  holidays?: string[]; // YYYY-MM-DD dates working-time countdowns skip
+  onPress?: (goal: Goal) => void;
+  onLongPress?: (goal: Goal) => void;
+  isSelecting?: boolean; // Selection mode - the card toggles selection and hides its actions
+  isSelected?: boolean;
   onDelete: (goalId: string) => void;
+  onArchive?: (goal: Goal) => void;
   onEdit?: (goal: Goal) => void;
+  onExportCalendar?: (goal: Goal) => void;
+  onDuplicate?: (goal: Goal) => void;
+  onLogProgress?: (goal: Goal) => void;
+  onResetStreak?: (goal: Goal) => void;
+  onExpired?: (goal: Goal) => void;
+  onCompleteOccurrence?: (goal: Goal) => void;
+  onToggleMilestone?: (goal: Goal, milestoneId: string) => void;
+  onStatusChange?: (goal: Goal, status: GoalStatus) => void;
 }
 
+// Text under the progress bar for each display state
+const STATE_PROGRESS_TEXT = {
+  active: 'In progress',
+  expired: 'Deadline passed',
+  achieved: 'Goal achieved',
+  missed: 'Goal missed',
+  abandoned: 'Goal abandoned',
+};
+
 /**
  * GoalItem component displays individual goals with countdown timers
  * Shows goal details, real-time countdown, and action buttons
  * Handles expired goals with special styling
+ * Tapping the card opens the goal's details and history
+ * In selection mode the card shows a checkbox instead of its action buttons
+ * Active goals waiting on an unfinished dependency are shown as blocked
+ * The progress bar shows how much of the time to the deadline is used up, or milestone progress
+ * Count-up trackers show the time since they started and their longest streak instead
  */
 export const GoalItem: React.FC<GoalItemProps> = ({
   goal,
+  tagColors = {},
+  searchTerms = [],
+  blockedBy = [],
+  workSchedule = DEFAULT_WORK_SCHEDULE,
+  holidays = [],
+  onPress,
+  onLongPress,
+  isSelecting = false,
+  isSelected = false,
   onDelete,
+  onArchive,
   onEdit,
+  onExportCalendar,
+  onDuplicate,
+  onLogProgress,
+  onResetStreak,
+  onExpired,
+  onCompleteOccurrence,
+  onToggleMilestone,
+  onStatusChange,
 }) => {
-  const isExpired = CountdownUtils.isExpired(goal.deadlineDate, goal.deadlineTime);
-  const deadlineFormatted = CountdownUtils.formatDeadline(goal.deadlineDate, goal.deadlineTime);
+  const displayState = getGoalDisplayState(goal);
+  const isActive = goal.status === 'active';
+  // Red styling for deadlines that passed without the goal being achieved
+  const isExpired = displayState === 'expired' || displayState === 'missed';
+  const isClosed = displayState === 'achieved' || displayState === 'abandoned';
+  const badge = GOAL_STATE_BADGES[displayState];
+  const isBlocked = isActive && blockedBy.length > 0;
+  const countsUp = isCountUp(goal);
+  const deadlineFormatted = CountdownUtils.formatDeadline(goal.deadlineAt, goal.timeZone);
+
+  // Show the deadline in the device's zone too when travelling away from the goal's zone
+  const deviceTimeZone = getDeviceTimeZone();
+  const isInOtherTimeZone = goal.timeZone !== deviceTimeZone;
+  const localDeadlineFormatted = isInOtherTimeZone
+    ? CountdownUtils.formatDeadline(goal.deadlineAt, deviceTimeZone)
+    : null;
 
   /**
    * Handle delete confirmation
    */
   const handleDelete = () => {
     Alert.alert(
-      'Delete Goal',
-      `Are you sure you want to delete "${goal.title}"?`,
+      'Move to Trash',
+      `Move "${goal.title}" to the trash? You can restore it from Archive & Trash.`,
       [
         {
           text: 'Cancel',
           style: 'cancel',
         },
         {
-          text: 'Delete',
+          text: 'Move to Trash',
           style: 'destructive',
           onPress: () => onDelete(goal.id),
         },
@@ -58,99 +143,403 @@ export const GoalItem: React.FC<GoalItemProps> = ({
     }
   };
 
+  /**
+   * Handle marking the current occurrence of a recurring goal as met
+   */
+  const handleCompleteOccurrence = () => {
+    if (onCompleteOccurrence) {
+      onCompleteOccurrence(goal);
+    }
+  };
+
+  /**
+   * Handle the status action
+   * Active goals can be marked achieved or abandoned, closed goals can be reopened
+   */
+  const handleStatusAction = () => {
+    if (!onStatusChange) return;
+
+    if (isActive) {
+      Alert.alert(
+        'Update Goal',
+        `What happened with "${goal.title}"?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Abandon', style: 'destructive', onPress: () => onStatusChange(goal, 'abandoned') },
+          { text: 'Mark Achieved', onPress: () => onStatusChange(goal, 'achieved') },
+        ]
+      );
+    } else {
+      Alert.alert(
+        'Reopen Goal',
+        `Move "${goal.title}" back to active?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Reopen', onPress: () => onStatusChange(goal, 'active') },
+        ]
+      );
+    }
+  };
+
+  /**
+   * Handle streak reset confirmation
+   */
+  const handleResetStreak = () => {
+    if (!onResetStreak) return;
+
+    Alert.alert(
+      'Reset Streak',
+      `Start counting "${goal.title}" again from now? The current streak is kept in the history.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Reset', style: 'destructive', onPress: () => onResetStreak(goal) },
+      ]
+    );
+  };
+
   /**
    * Handle countdown expiration
+   * Recurring goals are rolled to their next occurrence by the parent
    */
   const handleExpired = () => {
-    // Could trigger notifications or other actions when goal expires
     console.log(`Goal "${goal.title}" has expired!`);
+    if (onExpired) {
+      onExpired(goal);
+    }
   };
 
+  // Value against target and pace for quantitative goals
+  const pace = getPace(goal);
+  const requiredRate = pace && isActive ? describeRequiredRate(goal, pace) : null;
+
+  // e.g. "Moved 2 times, +5 days total" once the deadline has been pushed back
+  const deadlineDrift = describeDeadlineDrift(goal);
+
+  // Met/missed tally for recurring goals
+  const occurrences = goal.occurrences ?? [];
+  const metCount = occurrences.filter(occurrence => occurrence.outcome === 'met').length;
+  const missedCount = occurrences.length - metCount;
+
+  // Milestone progress drives the progress bar when the goal has milestones
+  const milestones = goal.milestones ?? [];
+  const nextMilestone = getNextOpenMilestone(goal);
+  const milestoneProgress = getMilestoneProgress(goal);
+  const doneMilestoneCount = milestones.filter(milestone => milestone.done).length;
+
+  // Share of the time from the start to the deadline used up, refreshed every minute
+  const now = useNow('minute');
+  const timeProgress = displayState === 'active' && !countsUp
+    ? CountdownUtils.getProgressPercentage(getGoalStartAt(goal), goal.deadlineAt, now)
+    : null;
+
+  let progressPercentage = isExpired || isClosed ? 100 : 0;
+  let progressColor = isExpired
+    ? '#FF3B30'
+    : displayState === 'achieved' ? '#28A745' : '#007AFF';
+  let progressText = STATE_PROGRESS_TEXT[displayState];
+  if (milestoneProgress !== null) {
+    progressPercentage = milestoneProgress;
+    progressText = `${doneMilestoneCount} of ${milestones.length} milestones done`;
+  } else if (timeProgress !== null) {
+    progressPercentage = timeProgress;
+    progressColor = CountdownUtils.getUrgencyColor(timeProgress);
+    progressText = `${Math.floor(timeProgress)}% of time elapsed`;
+  }
+
   return (
-    <View style={[styles.container, isExpired && styles.expiredContainer]}>
+    <TouchableOpacity
+      activeOpacity={0.8}
+      disabled={!onPress && !onLongPress}
+      onPress={() => onPress?.(goal)}
+      onLongPress={() => onLongPress?.(goal)}
+      style={[
+        styles.container,
+        isExpired && styles.expiredContainer,
+        displayState === 'achieved' && styles.achievedContainer,
+        displayState === 'abandoned' && styles.abandonedContainer,
+        isBlocked && !isExpired && styles.blockedContainer,
+        isSelected && styles.selectedContainer,
+      ]}
+    >
       {/* Goal Header */}
       <View style={styles.header}>
         <View style={styles.titleContainer}>
-          <Text style={[styles.title, isExpired && styles.expiredText]}>
-            {goal.title}
-          </Text>
-          {isExpired && (
-            <View style={styles.expiredBadge}>
-              <Text style={styles.expiredBadgeText}>EXPIRED</Text>
+          {isSelecting && (
+            <View style={[styles.checkbox, isSelected && styles.checkboxSelected]}>
+              {isSelected && <Text style={styles.checkboxMark}>✓</Text>}
+            </View>
+          )}
+          <HighlightedText
+            text={goal.title}
+            terms={searchTerms}
+            style={[styles.title, isExpired && styles.expiredText]}
+          />
+          {badge && (
+            <View style={[styles.expiredBadge, { backgroundColor: badge.color }]}>
+              <Text style={styles.expiredBadgeText}>{badge.label}</Text>
+            </View>
+          )}
+          {isBlocked && (
+            <View style={[styles.expiredBadge, styles.blockedBadge]}>
+              <Text style={styles.expiredBadgeText}>BLOCKED</Text>
             </View>
           )}
         </View>
         
         {/* Action Buttons */}
-        <View style={styles.actionButtons}>
-          {onEdit && (
+        {!isSelecting && (
+          <View style={styles.actionButtons}>
+            {onStatusChange && (
+              <TouchableOpacity
+                style={styles.editButton}
+                onPress={handleStatusAction}
+              >
+                <Text style={styles.editButtonText}>{isActive ? '🏁' : '↩️'}</Text>
+              </TouchableOpacity>
+            )}
+            {isActive && goal.recurrence && onCompleteOccurrence && (
+              <TouchableOpacity
+                style={styles.editButton}
+                onPress={handleCompleteOccurrence}
+              >
+                <Text style={styles.editButtonText}>✅</Text>
+              </TouchableOpacity>
+            )}
+            {countsUp && isActive && onResetStreak && (
+              <TouchableOpacity
+                style={styles.editButton}
+                onPress={handleResetStreak}
+              >
+                <Text style={styles.editButtonText}>🔄</Text>
+              </TouchableOpacity>
+            )}
+            {pace && isActive && onLogProgress && (
+              <TouchableOpacity
+                style={styles.editButton}
+                onPress={() => onLogProgress(goal)}
+              >
+                <Text style={styles.editButtonText}>➕</Text>
+              </TouchableOpacity>
+            )}
+            {onEdit && (
+              <TouchableOpacity
+                style={styles.editButton}
+                onPress={handleEdit}
+              >
+                <Text style={styles.editButtonText}>✏️</Text>
+              </TouchableOpacity>
+            )}
+            {onExportCalendar && (
+              <TouchableOpacity
+                style={styles.editButton}
+                onPress={() => onExportCalendar(goal)}
+              >
+                <Text style={styles.editButtonText}>📅</Text>
+              </TouchableOpacity>
+            )}
+            {onDuplicate && (
+              <TouchableOpacity
+                style={styles.editButton}
+                onPress={() => onDuplicate(goal)}
+              >
+                <Text style={styles.editButtonText}>📄</Text>
+              </TouchableOpacity>
+            )}
+            {onArchive && (
+              <TouchableOpacity
+                style={styles.editButton}
+                onPress={() => onArchive(goal)}
+              >
+                <Text style={styles.editButtonText}>📦</Text>
+              </TouchableOpacity>
+            )}
             <TouchableOpacity
-              style={styles.editButton}
-              onPress={handleEdit}
+              style={styles.deleteButton}
+              onPress={handleDelete}
             >
-              <Text style={styles.editButtonText}>✏️</Text>
+              <Text style={styles.deleteButtonText}>🗑️</Text>
             </TouchableOpacity>
-          )}
-          <TouchableOpacity
-            style={styles.deleteButton}
-            onPress={handleDelete}
-          >
-            <Text style={styles.deleteButtonText}>🗑️</Text>
-          </TouchableOpacity>
-        </View>
+          </View>
+        )}
       </View>
 
       {/* Goal Description */}
       {goal.description && (
-        <Text style={[styles.description, isExpired && styles.expiredText]}>
-          {goal.description}
-        </Text>
+        <HighlightedText
+          text={goal.description}
+          terms={searchTerms}
+          style={[styles.description, isExpired && styles.expiredText]}
+        />
+      )}
+
+      {/* Tags */}
+      {goal.tags && goal.tags.length > 0 && (
+        <View style={styles.tagsContainer}>
+          {goal.tags.map(tag => (
+            <TagChip
+              key={tag}
+              name={tag}
+              color={tagColors[tag.toLowerCase()] ?? TAG_COLORS[0]}
+              // While searching, only tags that match stay filled
+              selected={searchTerms.length === 0 || findMatches(tag, searchTerms).length > 0}
+            />
+          ))}
+        </View>
       )}
 
       {/* Deadline Information */}
       <View style={styles.deadlineContainer}>
         <Text style={[styles.deadlineLabel, isExpired && styles.expiredText]}>
-          Deadline:
+          {countsUp ? 'Since:' : 'Deadline:'}
         </Text>
         <Text style={[styles.deadlineText, isExpired && styles.expiredText]}>
           {deadlineFormatted}
+          {isInOtherTimeZone && ` (${goal.timeZone})`}
         </Text>
       </View>
+      {localDeadlineFormatted && (
+        <View style={styles.deadlineContainer}>
+          <Text style={[styles.deadlineLabel, isExpired && styles.expiredText]}>
+            Local:
+          </Text>
+          <Text style={[styles.deadlineText, isExpired && styles.expiredText]}>
+            {localDeadlineFormatted} ({deviceTimeZone})
+          </Text>
+        </View>
+      )}
 
-      {/* Countdown Timer */}
-      <View style={styles.countdownContainer}>
-        <Countdown
-          deadlineDate={goal.deadlineDate}
-          deadlineTime={goal.deadlineTime}
-          onExpired={handleExpired}
-        />
-      </View>
+      {/* Recurrence Information */}
+      {goal.recurrence && (
+        <View style={styles.deadlineContainer}>
+          <Text style={styles.deadlineLabel}>Repeats:</Text>
+          <Text style={styles.deadlineText}>
+            {describeRecurrence(goal.recurrence, goal.deadlineDate)}
+            {occurrences.length > 0 && ` · ${metCount} met, ${missedCount} missed`}
+          </Text>
+        </View>
+      )}
 
-      {/* Progress Indicator (Visual) */}
-      <View style={styles.progressContainer}>
-        <View style={styles.progressBar}>
-          <View
-            style={[
-              styles.progressFill,
-              {
-                width: isExpired ? '100%' : '0%',
-                backgroundColor: isExpired ? '#FF3B30' : '#007AFF',
-              },
-            ]}
-          />
+      {/* Dependencies */}
+      {isBlocked && (
+        <View style={styles.deadlineContainer}>
+          <Text style={styles.deadlineLabel}>Waiting on:</Text>
+          <Text style={styles.deadlineText}>
+            {blockedBy.map(dependency => dependency.title).join(', ')}
+          </Text>
         </View>
-        <Text style={[styles.progressText, isExpired && styles.expiredText]}>
-          {isExpired ? 'Goal completed' : 'In progress'}
-        </Text>
+      )}
+
+      {/* Deadline Drift */}
+      {deadlineDrift && (
+        <View style={styles.deadlineContainer}>
+          <Text style={styles.deadlineLabel}>Slipped:</Text>
+          <Text style={styles.driftText}>{deadlineDrift}</Text>
+        </View>
+      )}
+
+      {/* Countdown Timer - runs on as an overdue timer, stops once the goal has an outcome */}
+      <View style={[styles.countdownContainer, displayState === 'expired' && styles.overdueCountdownContainer]}>
+        {isActive ? (
+          <Countdown
+            deadlineAt={goal.deadlineAt}
+            countUp={countsUp}
+            mode={goal.countdownMode}
+            workingCalendar={{ schedule: workSchedule, holidays, timeZone: goal.timeZone }}
+            onExpired={handleExpired}
+          />
+        ) : (
+          <Text style={[styles.statusText, isExpired && styles.expiredText]}>
+            {STATE_PROGRESS_TEXT[displayState]} on {new Date(goal.statusChangedAt).toLocaleDateString()}
+          </Text>
+        )}
+        {countsUp && (
+          <Text style={styles.rateText}>
+            Longest streak: {formatStreakLength(getLongestStreakLength(goal, now))}
+          </Text>
+        )}
+        {pace && (
+          <View style={styles.quantityRow}>
+            <Text style={styles.quantityText}>{describeProgress(goal)}</Text>
+            {isActive && (
+              <View style={[styles.paceBadge, { backgroundColor: PACE_COLORS[pace.status] }]}>
+                <Text style={styles.paceBadgeText}>{PACE_LABELS[pace.status]}</Text>
+              </View>
+            )}
+          </View>
+        )}
+        {requiredRate && <Text style={styles.rateText}>{requiredRate}</Text>}
       </View>
 
+      {/* Outcome Prompt - deadline passed without a recorded outcome */}
+      {displayState === 'expired' && !goal.recurrence && onStatusChange && (
+        <View style={styles.outcomePrompt}>
+          <Text style={styles.outcomePromptText}>
+            The deadline has passed. Did you meet this goal?
+          </Text>
+          <View style={styles.outcomeButtons}>
+            <TouchableOpacity
+              style={[styles.outcomeButton, styles.outcomeButtonAchieved]}
+              onPress={() => onStatusChange(goal, 'achieved')}
+            >
+              <Text style={styles.outcomeButtonText}>Yes, achieved</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.outcomeButton, styles.outcomeButtonMissed]}
+              onPress={() => onStatusChange(goal, 'missed')}
+            >
+              <Text style={styles.outcomeButtonText}>No, missed</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {/* Milestones */}
+      {milestones.length > 0 && (
+        <View style={styles.milestonesContainer}>
+          {nextMilestone && displayState === 'active' && (
+            <View style={styles.nextMilestoneContainer}>
+              <Text style={styles.nextMilestoneLabel}>
+                Next milestone: {nextMilestone.title}
+              </Text>
+              <Text style={styles.nextMilestoneDeadline}>
+                {CountdownUtils.formatDeadline(nextMilestone.deadlineAt, goal.timeZone)}
+              </Text>
+              <Countdown deadlineAt={nextMilestone.deadlineAt} />
+            </View>
+          )}
+          {milestones.map(milestone => (
+            <TouchableOpacity
+              key={milestone.id}
+              style={styles.milestoneRow}
+              onPress={() => onToggleMilestone && onToggleMilestone(goal, milestone.id)}
+              disabled={!onToggleMilestone}
+            >
+              <Text style={styles.milestoneCheck}>{milestone.done ? '☑️' : '⬜'}</Text>
+              <Text style={[styles.milestoneTitle, milestone.done && styles.milestoneDone]}>
+                {milestone.title}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {/* Progress Indicator (Visual) - count-up trackers have no end to measure against */}
+      {!countsUp && (
+        <View style={styles.progressContainer}>
+          <ProgressBar percentage={progressPercentage} color={progressColor} />
+          <Text style={[styles.progressText, isExpired && styles.expiredText]}>
+            {progressText}
+          </Text>
+        </View>
+      )}
+
       {/* Creation Date */}
       <View style={styles.metaContainer}>
         <Text style={[styles.metaText, isExpired && styles.expiredText]}>
           Created: {new Date(goal.createdAt).toLocaleDateString()}
         </Text>
       </View>
-    </View>
+    </TouchableOpacity>
   );
 };
 
@@ -176,6 +565,30 @@ const styles = StyleSheet.create({
     borderLeftColor: '#FF3B30',
     backgroundColor: '#FFF5F5',
   },
+  blockedContainer: {
+    borderLeftColor: '#6C757D',
+  },
+  selectedContainer: {
+    backgroundColor: '#E3F2FD',
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    borderWidth: 2,
+    borderColor: '#007AFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  checkboxSelected: {
+    backgroundColor: '#007AFF',
+  },
+  checkboxMark: {
+    fontSize: 12,
+    color: 'white',
+    fontWeight: 'bold',
+  },
   header: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -195,6 +608,14 @@ const styles = StyleSheet.create({
     flex: 1,
     marginRight: 8,
   },
+  achievedContainer: {
+    borderLeftColor: '#28A745',
+    backgroundColor: '#F3FBF5',
+  },
+  abandonedContainer: {
+    borderLeftColor: '#6C757D',
+    opacity: 0.7,
+  },
   expiredText: {
     color: '#FF3B30',
   },
@@ -209,6 +630,10 @@ const styles = StyleSheet.create({
     fontSize: 10,
     fontWeight: 'bold',
   },
+  blockedBadge: {
+    backgroundColor: '#6C757D',
+    marginLeft: 4,
+  },
   actionButtons: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -232,6 +657,12 @@ const styles = StyleSheet.create({
     marginBottom: 12,
     lineHeight: 20,
   },
+  tagsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 12,
+  },
   deadlineContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -248,6 +679,12 @@ const styles = StyleSheet.create({
     color: '#666',
     flex: 1,
   },
+  driftText: {
+    fontSize: 14,
+    color: '#FF9500',
+    fontWeight: '500',
+    flex: 1,
+  },
   countdownContainer: {
     marginBottom: 12,
     padding: 12,
@@ -256,19 +693,120 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#E9ECEF',
   },
-  progressContainer: {
+  overdueCountdownContainer: {
+    backgroundColor: '#FFEBEE',
+    borderColor: '#FF3B30',
+  },
+  quantityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 8,
+    gap: 8,
+  },
+  quantityText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  paceBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
+  paceBadgeText: {
+    fontSize: 10,
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  rateText: {
+    fontSize: 12,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  milestonesContainer: {
+    marginBottom: 12,
+  },
+  nextMilestoneContainer: {
+    padding: 12,
+    marginBottom: 8,
+    backgroundColor: '#E3F2FD',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#BBDEFB',
+  },
+  nextMilestoneLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1976D2',
+    marginBottom: 2,
+  },
+  nextMilestoneDeadline: {
+    fontSize: 12,
+    color: '#1976D2',
+    marginBottom: 8,
+  },
+  milestoneRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  milestoneCheck: {
+    fontSize: 14,
+    marginRight: 8,
+  },
+  milestoneTitle: {
+    fontSize: 14,
+    color: '#333',
+    flex: 1,
+  },
+  milestoneDone: {
+    color: '#999',
+    textDecorationLine: 'line-through',
+  },
+  statusText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    textAlign: 'center',
+  },
+  outcomePrompt: {
+    marginBottom: 12,
+    padding: 12,
+    backgroundColor: '#FFF8E1',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#FFE082',
+  },
+  outcomePromptText: {
+    fontSize: 14,
+    color: '#333',
     marginBottom: 8,
   },
-  progressBar: {
-    height: 4,
-    backgroundColor: '#E9ECEF',
-    borderRadius: 2,
-    overflow: 'hidden',
-    marginBottom: 4,
+  outcomeButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  outcomeButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  outcomeButtonAchieved: {
+    backgroundColor: '#28A745',
   },
-  progressFill: {
-    height: '100%',
-    borderRadius: 2,
+  outcomeButtonMissed: {
+    backgroundColor: '#FF3B30',
+  },
+  outcomeButtonText: {
+    fontSize: 14,
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  progressContainer: {
+    marginBottom: 8,
   },
   progressText: {
     fontSize: 12,
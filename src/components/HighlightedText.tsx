@@ -0,0 +1,56 @@
+import React from 'react';
+import {
+  Text,
+  StyleSheet,
+  StyleProp,
+  TextStyle,
+} from 'react-native';
+import { findMatches } from '../utils/search';
+
+interface HighlightedTextProps {
+  text: string;
+  terms: string[]; // Search terms from getSearchTerms
+  style?: StyleProp<TextStyle>;
+}
+
+/**
+ * HighlightedText component renders text with search matches marked
+ * Renders plain text when there are no terms
+ */
+export const HighlightedText: React.FC<HighlightedTextProps> = ({
+  text,
+  terms,
+  style,
+}) => {
+  const ranges = findMatches(text, terms);
+  if (ranges.length === 0) {
+    return <Text style={style}>{text}</Text>;
+  }
+
+  // Alternate plain and highlighted parts
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  ranges.forEach((range, index) => {
+    if (range.start > position) {
+      parts.push(text.slice(position, range.start));
+    }
+    parts.push(
+      <Text key={index} style={styles.highlight}>
+        {text.slice(range.start, range.end)}
+      </Text>
+    );
+    position = range.end;
+  });
+  if (position < text.length) {
+    parts.push(text.slice(position));
+  }
+
+  return <Text style={style}>{parts}</Text>;
+};
+
+const styles = StyleSheet.create({
+  highlight: {
+    backgroundColor: '#FFE58F',
+    color: '#333',
+  },
+});
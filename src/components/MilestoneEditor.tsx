@@ -0,0 +1,214 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+} from 'react-native';
+import { DatePicker } from './DatePicker';
+import { TimePicker } from './TimePicker';
+import { GoalStorage } from '../storage/storage';
+import { MilestoneFormValues } from '../utils/validation';
+
+interface MilestoneEditorProps {
+  milestones: MilestoneFormValues[];
+  onMilestonesChange: (milestones: MilestoneFormValues[]) => void;
+}
+
+/**
+ * MilestoneEditor component for editing an ordered list of milestones
+ * Each row has a title, its own deadline and a done toggle
+ * Rows can be reordered, since the list order is the milestone order
+ */
+export const MilestoneEditor: React.FC<MilestoneEditorProps> = ({
+  milestones,
+  onMilestonesChange,
+}) => {
+  /**
+   * Update one field of a milestone row
+   */
+  const updateMilestone = <K extends keyof MilestoneFormValues>(
+    index: number,
+    field: K,
+    value: MilestoneFormValues[K]
+  ) => {
+    const updated = milestones.map((milestone, i) =>
+      i === index ? { ...milestone, [field]: value } : milestone
+    );
+    onMilestonesChange(updated);
+  };
+
+  /**
+   * Append an empty milestone row
+   */
+  const handleAddMilestone = () => {
+    onMilestonesChange([
+      ...milestones,
+      {
+        id: GoalStorage.generateId(),
+        title: '',
+        deadlineDate: '',
+        deadlineTime: '',
+        done: false,
+      },
+    ]);
+  };
+
+  /**
+   * Remove a milestone row
+   */
+  const handleRemoveMilestone = (index: number) => {
+    onMilestonesChange(milestones.filter((_, i) => i !== index));
+  };
+
+  /**
+   * Swap a milestone with its neighbour
+   */
+  const handleMoveMilestone = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= milestones.length) return;
+
+    const reordered = [...milestones];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onMilestonesChange(reordered);
+  };
+
+  return (
+    <View style={styles.container}>
+      {milestones.map((milestone, index) => (
+        <View key={milestone.id} style={styles.milestoneCard}>
+          <View style={styles.milestoneHeader}>
+            <TouchableOpacity
+              style={styles.doneToggle}
+              onPress={() => updateMilestone(index, 'done', !milestone.done)}
+            >
+              <Text style={styles.doneToggleText}>{milestone.done ? '☑️' : '⬜'}</Text>
+            </TouchableOpacity>
+            <Text style={styles.milestoneNumber}>Milestone {index + 1}</Text>
+            <View style={styles.rowActions}>
+              <TouchableOpacity
+                style={styles.rowActionButton}
+                onPress={() => handleMoveMilestone(index, -1)}
+                disabled={index === 0}
+              >
+                <Text style={[styles.rowActionText, index === 0 && styles.rowActionDisabled]}>↑</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.rowActionButton}
+                onPress={() => handleMoveMilestone(index, 1)}
+                disabled={index === milestones.length - 1}
+              >
+                <Text
+                  style={[
+                    styles.rowActionText,
+                    index === milestones.length - 1 && styles.rowActionDisabled,
+                  ]}
+                >
+                  ↓
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.rowActionButton}
+                onPress={() => handleRemoveMilestone(index)}
+              >
+                <Text style={styles.rowActionText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          <TextInput
+            style={styles.textInput}
+            value={milestone.title}
+            onChangeText={(text) => updateMilestone(index, 'title', text)}
+            placeholder="Milestone title"
+            placeholderTextColor="#999"
+            maxLength={100}
+          />
+          <DatePicker
+            selectedDate={milestone.deadlineDate}
+            onDateChange={(date) => updateMilestone(index, 'deadlineDate', date)}
+            placeholder="Select milestone date"
+          />
+          <TimePicker
+            selectedTime={milestone.deadlineTime}
+            onTimeChange={(time) => updateMilestone(index, 'deadlineTime', time)}
+            placeholder="Select milestone time"
+          />
+        </View>
+      ))}
+
+      <TouchableOpacity style={styles.addButton} onPress={handleAddMilestone}>
+        <Text style={styles.addButtonText}>+ Add Milestone</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginVertical: 8,
+  },
+  milestoneCard: {
+    borderWidth: 1,
+    borderColor: '#E9ECEF',
+    borderRadius: 8,
+    backgroundColor: 'white',
+    padding: 12,
+    marginBottom: 12,
+  },
+  milestoneHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  doneToggle: {
+    paddingRight: 8,
+  },
+  doneToggleText: {
+    fontSize: 18,
+  },
+  milestoneNumber: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  rowActions: {
+    flexDirection: 'row',
+  },
+  rowActionButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  rowActionText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  rowActionDisabled: {
+    color: '#CCC',
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: '#DDD',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    backgroundColor: 'white',
+    color: '#333',
+  },
+  addButton: {
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    borderStyle: 'dashed',
+    alignItems: 'center',
+  },
+  addButtonText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,62 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  Animated,
+  Easing,
+} from 'react-native';
+
+interface ProgressBarProps {
+  percentage: number; // 0-100
+  color: string;
+}
+
+// How long the fill takes to slide to a new percentage
+const ANIMATION_DURATION_MS = 600;
+
+/**
+ * ProgressBar component renders a thin bar whose fill slides to the given percentage
+ * Animated with the Animated API, starting from empty when first shown
+ */
+export const ProgressBar: React.FC<ProgressBarProps> = ({
+  percentage,
+  color,
+}) => {
+  const [fill] = useState(() => new Animated.Value(0));
+
+  useEffect(() => {
+    Animated.timing(fill, {
+      toValue: percentage,
+      duration: ANIMATION_DURATION_MS,
+      easing: Easing.out(Easing.ease),
+      // Width can't be animated on the native thread
+      useNativeDriver: false,
+    }).start();
+  }, [fill, percentage]);
+
+  const width = fill.interpolate({
+    inputRange: [0, 100],
+    outputRange: ['0%', '100%'],
+    extrapolate: 'clamp',
+  });
+
+  return (
+    <View style={styles.track}>
+      <Animated.View style={[styles.fill, { width, backgroundColor: color }]} />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  track: {
+    height: 4,
+    backgroundColor: '#E9ECEF',
+    borderRadius: 2,
+    overflow: 'hidden',
+    marginBottom: 4,
+  },
+  fill: {
+    height: '100%',
+    borderRadius: 2,
+  },
+});
@@ -0,0 +1,196 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  KeyboardTypeOptions,
+} from 'react-native';
+
+interface PromptModalProps {
+  visible: boolean;
+  title: string;
+  message?: string;
+  placeholder?: string;
+  keyboardType?: KeyboardTypeOptions;
+  suggestions?: string[]; // Quick picks that fill the input
+  confirmLabel?: string;
+  onConfirm: (value: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * PromptModal component asks for a single value, with optional quick picks
+ * Works on both platforms, unlike Alert.prompt which is iOS only
+ */
+export const PromptModal: React.FC<PromptModalProps> = ({
+  visible,
+  title,
+  message,
+  placeholder,
+  keyboardType = 'default',
+  suggestions = [],
+  confirmLabel = 'Confirm',
+  onConfirm,
+  onCancel,
+}) => {
+  const [value, setValue] = useState<string>('');
+
+  // Start empty every time the prompt opens
+  useEffect(() => {
+    if (visible) {
+      setValue('');
+    }
+  }, [visible]);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onCancel}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <Text style={styles.modalTitle}>{title}</Text>
+          {message && <Text style={styles.message}>{message}</Text>}
+
+          <TextInput
+            style={styles.textInput}
+            value={value}
+            onChangeText={setValue}
+            placeholder={placeholder}
+            placeholderTextColor="#999"
+            keyboardType={keyboardType}
+            autoFocus
+          />
+
+          {suggestions.length > 0 && (
+            <View style={styles.suggestions}>
+              {suggestions.map(suggestion => (
+                <TouchableOpacity
+                  key={suggestion}
+                  style={[styles.chip, value === suggestion && styles.chipSelected]}
+                  onPress={() => setValue(suggestion)}
+                >
+                  <Text style={[styles.chipText, value === suggestion && styles.chipTextSelected]}>
+                    {suggestion}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          <View style={styles.modalFooter}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.confirmButton, !value.trim() && styles.confirmButtonDisabled]}
+              onPress={() => onConfirm(value.trim())}
+              disabled={!value.trim()}
+            >
+              <Text style={styles.confirmButtonText}>{confirmLabel}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    width: '90%',
+    padding: 16,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  message: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 12,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: '#DDD',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    backgroundColor: 'white',
+    color: '#333',
+  },
+  suggestions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#F0F0F0',
+    borderWidth: 1,
+    borderColor: '#DDD',
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#666',
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: 'white',
+  },
+  modalFooter: {
+    flexDirection: 'row',
+    marginTop: 16,
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 12,
+    marginRight: 8,
+    borderRadius: 8,
+    backgroundColor: '#f0f0f0',
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  confirmButton: {
+    flex: 1,
+    paddingVertical: 12,
+    marginLeft: 8,
+    borderRadius: 8,
+    backgroundColor: '#007AFF',
+    alignItems: 'center',
+  },
+  confirmButtonDisabled: {
+    backgroundColor: '#CCC',
+  },
+  confirmButtonText: {
+    fontSize: 16,
+    color: 'white',
+    fontWeight: 'bold',
+  },
+});
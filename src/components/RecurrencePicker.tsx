@@ -0,0 +1,164 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+} from 'react-native';
+import { RecurrenceFrequency, RecurrenceRule } from '../storage/storage';
+import { WEEKDAY_NAMES } from '../utils/recurrence';
+
+interface RecurrencePickerProps {
+  rule: RecurrenceRule | null; // null means the goal doesn't repeat
+  onRuleChange: (rule: RecurrenceRule | null) => void;
+}
+
+const FREQUENCY_OPTIONS: { value: RecurrenceFrequency | 'none'; label: string }[] = [
+  { value: 'none', label: 'Never' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'yearly', label: 'Yearly' },
+];
+
+/**
+ * Custom RecurrencePicker component for repeating goals
+ * Frequency chips plus weekday or monthly options depending on the frequency
+ * The day of month is taken from the deadline date when the goal is saved
+ */
+export const RecurrencePicker: React.FC<RecurrencePickerProps> = ({
+  rule,
+  onRuleChange,
+}) => {
+  const selectedFrequency = rule ? rule.frequency : 'none';
+
+  /**
+   * Handle frequency selection
+   */
+  const handleFrequencySelect = (frequency: RecurrenceFrequency | 'none') => {
+    if (frequency === 'none') {
+      onRuleChange(null);
+    } else if (frequency === 'monthly') {
+      onRuleChange({ frequency, monthlyMode: 'dayOfMonth' });
+    } else {
+      onRuleChange({ frequency });
+    }
+  };
+
+  /**
+   * Toggle a weekday for weekly rules
+   */
+  const handleWeekdayToggle = (weekday: number) => {
+    if (!rule) return;
+
+    const weekdays = rule.weekdays ?? [];
+    const updatedWeekdays = weekdays.includes(weekday)
+      ? weekdays.filter(day => day !== weekday)
+      : [...weekdays, weekday];
+
+    onRuleChange({ ...rule, weekdays: updatedWeekdays });
+  };
+
+  // Render a selectable chip
+  const renderChip = (key: string, label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, isSelected && styles.chipSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.chipRow}>
+        {FREQUENCY_OPTIONS.map(option =>
+          renderChip(
+            option.value,
+            option.label,
+            selectedFrequency === option.value,
+            () => handleFrequencySelect(option.value)
+          )
+        )}
+      </View>
+
+      {/* Weekly: pick the weekdays */}
+      {rule?.frequency === 'weekly' && (
+        <View>
+          <Text style={styles.hint}>Repeat on (defaults to the deadline's weekday)</Text>
+          <View style={styles.chipRow}>
+            {WEEKDAY_NAMES.map((name, weekday) =>
+              renderChip(
+                name,
+                name,
+                (rule.weekdays ?? []).includes(weekday),
+                () => handleWeekdayToggle(weekday)
+              )
+            )}
+          </View>
+        </View>
+      )}
+
+      {/* Monthly: same day of month or last weekday */}
+      {rule?.frequency === 'monthly' && (
+        <View>
+          <Text style={styles.hint}>Repeat on</Text>
+          <View style={styles.chipRow}>
+            {renderChip(
+              'dayOfMonth',
+              "Deadline's day of month",
+              rule.monthlyMode !== 'lastWeekday',
+              () => onRuleChange({ ...rule, monthlyMode: 'dayOfMonth' })
+            )}
+            {renderChip(
+              'lastWeekday',
+              'Last weekday',
+              rule.monthlyMode === 'lastWeekday',
+              () => onRuleChange({ ...rule, monthlyMode: 'lastWeekday' })
+            )}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginVertical: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#F0F0F0',
+    borderWidth: 1,
+    borderColor: '#DDD',
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#666',
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: 'white',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+});
@@ -0,0 +1,92 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+} from 'react-native';
+import { REMINDER_OPTIONS, formatReminderOffset } from '../utils/reminders';
+
+interface ReminderPickerProps {
+  offsets: number[]; // Minutes before the deadline
+  onOffsetsChange: (offsets: number[]) => void;
+}
+
+/**
+ * ReminderPicker component toggles when reminders go out before the deadline
+ * No selection means the goal gets no reminders
+ */
+export const ReminderPicker: React.FC<ReminderPickerProps> = ({
+  offsets,
+  onOffsetsChange,
+}) => {
+  /**
+   * Add or remove an offset, keeping the list sorted largest first
+   */
+  const handleToggle = (minutes: number) => {
+    const nextOffsets = offsets.includes(minutes)
+      ? offsets.filter(offset => offset !== minutes)
+      : [...offsets, minutes];
+    onOffsetsChange(nextOffsets.sort((a, b) => b - a));
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.chipRow}>
+        {REMINDER_OPTIONS.map(minutes => {
+          const isSelected = offsets.includes(minutes);
+          return (
+            <TouchableOpacity
+              key={minutes}
+              style={[styles.chip, isSelected && styles.chipSelected]}
+              onPress={() => handleToggle(minutes)}
+            >
+              <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                {formatReminderOffset(minutes)} before
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      {offsets.length === 0 && (
+        <Text style={styles.hint}>No reminders will be sent for this goal.</Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginVertical: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#F0F0F0',
+    borderWidth: 1,
+    borderColor: '#DDD',
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#666',
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: 'white',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 8,
+  },
+});
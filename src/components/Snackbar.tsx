@@ -0,0 +1,94 @@
+import React, { useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+} from 'react-native';
+
+interface SnackbarProps {
+  message: string;
+  actionLabel?: string;
+  onAction?: () => void;
+  onDismiss: () => void;
+  duration?: number; // Milliseconds before the snackbar hides itself
+}
+
+/**
+ * Snackbar component shows a short message with an optional action (e.g. Undo)
+ * Dismisses itself after the given duration
+ */
+export const Snackbar: React.FC<SnackbarProps> = ({
+  message,
+  actionLabel,
+  onAction,
+  onDismiss,
+  duration = 5000,
+}) => {
+  // Auto-dismiss timer, restarted whenever a new message is shown
+  useEffect(() => {
+    const timeout = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timeout);
+  }, [message, duration]);
+
+  /**
+   * Handle action press - runs the action and hides the snackbar
+   */
+  const handleAction = () => {
+    if (onAction) {
+      onAction();
+    }
+    onDismiss();
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.message} numberOfLines={2}>
+        {message}
+      </Text>
+      {actionLabel && onAction && (
+        <TouchableOpacity style={styles.actionButton} onPress={handleAction}>
+          <Text style={styles.actionText}>{actionLabel}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 16,
+    right: 88, // Leave room for the floating action button
+    bottom: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#323232',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    elevation: 6,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 3,
+    },
+    shadowOpacity: 0.27,
+    shadowRadius: 4.65,
+  },
+  message: {
+    flex: 1,
+    fontSize: 14,
+    color: 'white',
+  },
+  actionButton: {
+    marginLeft: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#4DA3FF',
+  },
+});
@@ -0,0 +1,29 @@
+import React, { createContext, useContext } from 'react';
+import { APP_STORES, Stores } from '../storage/stores';
+
+const StorageContext = createContext<Stores | null>(null);
+
+interface StorageProviderProps {
+  stores?: Stores; // The app's AsyncStorage repositories when unset
+  children: React.ReactNode;
+}
+
+/**
+ * StorageProvider component hands the repositories to every screen below it
+ * Pass stores built with createStores to run the screens against another backend
+ */
+export const StorageProvider: React.FC<StorageProviderProps> = ({ stores = APP_STORES, children }) => {
+  return <StorageContext.Provider value={stores}>{children}</StorageContext.Provider>;
+};
+
+/**
+ * Repositories from the nearest StorageProvider
+ * @returns Stores - Goal, settings, tag, template, holiday and smart list repositories
+ */
+export const useStorage = (): Stores => {
+  const stores = useContext(StorageContext);
+  if (!stores) {
+    throw new Error('useStorage must be used inside a StorageProvider');
+  }
+  return stores;
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import {
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+} from 'react-native';
+
+interface TagChipProps {
+  name: string;
+  color: string;
+  selected?: boolean; // Filled chip when selected, outlined otherwise
+  onPress?: () => void;
+  onRemove?: () => void; // Shows a remove mark when provided
+}
+
+/**
+ * TagChip component renders a colored tag label
+ * Used on goal cards, in the tag filter and in the tag editor
+ */
+export const TagChip: React.FC<TagChipProps> = ({
+  name,
+  color,
+  selected = true,
+  onPress,
+  onRemove,
+}) => {
+  return (
+    <TouchableOpacity
+      style={[
+        styles.chip,
+        { borderColor: color, backgroundColor: selected ? color : 'transparent' },
+      ]}
+      onPress={onPress}
+      disabled={!onPress && !onRemove}
+    >
+      <Text style={[styles.chipText, { color: selected ? 'white' : color }]}>
+        {name}
+      </Text>
+      {onRemove && (
+        <Text
+          style={[styles.removeText, { color: selected ? 'white' : color }]}
+          onPress={onRemove}
+        >
+          ✕
+        </Text>
+      )}
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  removeText: {
+    fontSize: 12,
+    marginLeft: 6,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,229 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+} from 'react-native';
+import { TagChip } from './TagChip';
+import {
+  Tag,
+  TAG_COLORS,
+  isSameTag,
+  normalizeTagName,
+} from '../storage/tags';
+import { useStorage } from './StorageProvider';
+
+interface TagEditorProps {
+  tags: string[];
+  onTagsChange: (tags: string[]) => void;
+}
+
+// Maximum number of autocomplete suggestions shown at once
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * TagEditor component for adding and removing tags on a goal
+ * Suggests existing tags while typing; tapping a chip lets the user pick its color
+ * New tags get a palette color when the goal is saved
+ */
+export const TagEditor: React.FC<TagEditorProps> = ({
+  tags,
+  onTagsChange,
+}) => {
+  const { tagStorage } = useStorage();
+  const [allTags, setAllTags] = useState<Tag[]>([]);
+  const [input, setInput] = useState<string>('');
+  const [colorPickerTag, setColorPickerTag] = useState<string | null>(null);
+
+  // Load existing tags for autocomplete and colors
+  useEffect(() => {
+    tagStorage.getAllTags().then(setAllTags);
+  }, [tagStorage]);
+
+  const colorMap = tagStorage.toColorMap(allTags);
+
+  /**
+   * Color of a tag, or the color it will get when saved
+   */
+  const getTagColor = (name: string): string => {
+    return colorMap[name.toLowerCase()] ?? TAG_COLORS[allTags.length % TAG_COLORS.length];
+  };
+
+  // Existing tags starting with the typed text that aren't on the goal yet
+  const query = normalizeTagName(input).toLowerCase();
+  const suggestions = query
+    ? allTags
+        .filter(tag => tag.name.toLowerCase().startsWith(query))
+        .filter(tag => !tags.some(name => isSameTag(name, tag.name)))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  /**
+   * Add a tag to the goal, reusing the casing of an existing tag with the same name
+   */
+  const handleAddTag = (name: string) => {
+    const normalized = normalizeTagName(name);
+    if (!normalized || tags.some(tag => isSameTag(tag, normalized))) {
+      setInput('');
+      return;
+    }
+
+    const existing = allTags.find(tag => isSameTag(tag.name, normalized));
+    onTagsChange([...tags, existing ? existing.name : normalized]);
+    setInput('');
+  };
+
+  /**
+   * Remove a tag from the goal
+   */
+  const handleRemoveTag = (name: string) => {
+    onTagsChange(tags.filter(tag => tag !== name));
+    if (colorPickerTag === name) {
+      setColorPickerTag(null);
+    }
+  };
+
+  /**
+   * Save a new color for a tag
+   */
+  const handleColorSelect = async (name: string, color: string) => {
+    await tagStorage.setTagColor(name, color);
+    setAllTags(await tagStorage.getAllTags());
+    setColorPickerTag(null);
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Selected Tags */}
+      {tags.length > 0 && (
+        <View style={styles.chipRow}>
+          {tags.map(name => (
+            <TagChip
+              key={name}
+              name={name}
+              color={getTagColor(name)}
+              onPress={() => setColorPickerTag(colorPickerTag === name ? null : name)}
+              onRemove={() => handleRemoveTag(name)}
+            />
+          ))}
+        </View>
+      )}
+
+      {/* Color Palette for the tapped tag */}
+      {colorPickerTag && (
+        <View style={styles.palette}>
+          <Text style={styles.hint}>Color for "{colorPickerTag}"</Text>
+          <View style={styles.chipRow}>
+            {TAG_COLORS.map(color => (
+              <TouchableOpacity
+                key={color}
+                style={[
+                  styles.swatch,
+                  { backgroundColor: color },
+                  getTagColor(colorPickerTag) === color && styles.swatchSelected,
+                ]}
+                onPress={() => handleColorSelect(colorPickerTag, color)}
+              />
+            ))}
+          </View>
+        </View>
+      )}
+
+      {/* Tag Input */}
+      <TextInput
+        style={styles.textInput}
+        value={input}
+        onChangeText={setInput}
+        onSubmitEditing={() => handleAddTag(input)}
+        placeholder="Add a tag (e.g. work, health)"
+        placeholderTextColor="#999"
+        maxLength={30}
+        returnKeyType="done"
+        blurOnSubmit={false}
+      />
+
+      {/* Autocomplete Suggestions */}
+      {suggestions.length > 0 && (
+        <View style={styles.suggestions}>
+          {suggestions.map(tag => (
+            <TouchableOpacity
+              key={tag.name}
+              style={styles.suggestionRow}
+              onPress={() => handleAddTag(tag.name)}
+            >
+              <View style={[styles.suggestionDot, { backgroundColor: tag.color }]} />
+              <Text style={styles.suggestionText}>{tag.name}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginVertical: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  palette: {
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    marginBottom: 8,
+  },
+  swatch: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+  },
+  swatchSelected: {
+    borderWidth: 3,
+    borderColor: '#333',
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: '#DDD',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    backgroundColor: 'white',
+    color: '#333',
+  },
+  suggestions: {
+    borderWidth: 1,
+    borderColor: '#DDD',
+    borderTopWidth: 0,
+    borderBottomLeftRadius: 8,
+    borderBottomRightRadius: 8,
+    backgroundColor: 'white',
+  },
+  suggestionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F0F0F0',
+  },
+  suggestionDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 8,
+  },
+  suggestionText: {
+    fontSize: 14,
+    color: '#333',
+  },
+});
@@ -0,0 +1,491 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { Paths } from 'expo-file-system';
+import { ImportMode, ParsedBackup, createBackup, parseBackup } from '../utils/backup';
+import { pickTextFile, shareTextFile, writeTextFile } from '../utils/files';
+import {
+  CALENDAR_FILE_TYPE,
+  CalendarComponent,
+  exportCalendar,
+  getCalendarFileName,
+  parseCalendar,
+} from '../utils/ical';
+import { useStorage } from '../components/StorageProvider';
+
+interface BackupScreenProps {
+  navigation: any;
+}
+
+const JSON_FILE_TYPE = { mimeType: 'application/json', UTI: 'public.json' };
+
+/**
+ * BackupScreen component exports all goals to a JSON backup and imports them again
+ * Imports are validated first; the user then chooses to merge or replace their goals
+ * Goals can also be exchanged with calendar apps as .ics events or tasks
+ */
+export const BackupScreen: React.FC<BackupScreenProps> = ({ navigation }) => {
+  const { goalStorage, goalActions, tagStorage } = useStorage();
+  const [isBusy, setIsBusy] = useState<boolean>(false);
+  const [pendingImport, setPendingImport] = useState<ParsedBackup | null>(null);
+  const [calendarComponent, setCalendarComponent] = useState<CalendarComponent>('VEVENT');
+
+  /**
+   * Serialize every goal and tag into a backup document
+   * @returns Promise<string> - Backup JSON
+   */
+  const buildBackupJson = async (): Promise<string> => {
+    const [goals, tags] = await Promise.all([goalStorage.getAllGoals(), tagStorage.getAllTags()]);
+    return JSON.stringify(createBackup(goals, tags), null, 2);
+  };
+
+  /**
+   * Name for a new backup file, dated so backups don't overwrite each other across days
+   */
+  const getBackupFileName = (): string => {
+    return `goals-backup-${new Date().toISOString().slice(0, 10)}.json`;
+  };
+
+  /**
+   * Handle sharing a backup through the platform share sheet
+   */
+  const handleShareBackup = async () => {
+    setIsBusy(true);
+    try {
+      await shareTextFile(getBackupFileName(), await buildBackupJson(), JSON_FILE_TYPE, 'Export goals');
+    } catch (error) {
+      console.error('Error exporting backup:', error);
+      Alert.alert('Error', 'Failed to export goals. Please try again.', [{ text: 'OK' }]);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  /**
+   * Handle saving a backup to the app's documents folder
+   */
+  const handleSaveBackup = async () => {
+    setIsBusy(true);
+    try {
+      const file = writeTextFile(Paths.document, getBackupFileName(), await buildBackupJson());
+      Alert.alert('Backup Saved', `Your goals were saved to ${file.name}.`, [{ text: 'OK' }]);
+    } catch (error) {
+      console.error('Error saving backup:', error);
+      Alert.alert('Error', 'Failed to save backup. Please try again.', [{ text: 'OK' }]);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  /**
+   * Handle picking a backup file and validating its contents
+   */
+  const handleChooseBackup = async () => {
+    try {
+      const json = await pickTextFile(['application/json', 'text/plain']);
+      if (json === null) {
+        return;
+      }
+
+      setIsBusy(true);
+      setPendingImport(await parseBackup(json));
+    } catch (error) {
+      console.error('Error reading backup:', error);
+      const message = error instanceof Error ? error.message : 'Failed to read the backup file.';
+      Alert.alert('Error', message, [{ text: 'OK' }]);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  /**
+   * Store the validated goals, confirming first when existing goals will be replaced
+   */
+  const handleImport = (mode: ImportMode) => {
+    if (!pendingImport) {
+      return;
+    }
+
+    const runImport = async () => {
+      setIsBusy(true);
+      const success = await goalActions.importGoals(pendingImport.goals, mode);
+      if (success) {
+        await tagStorage.importTags(pendingImport.tags, mode === 'replace');
+      }
+      setIsBusy(false);
+
+      if (success) {
+        setPendingImport(null);
+        Alert.alert(
+          'Import Complete',
+          `${pendingImport.goals.length} goal(s) imported.`,
+          [{ text: 'OK', onPress: () => navigation.goBack() }]
+        );
+      } else {
+        Alert.alert('Error', 'Failed to import goals. Please try again.', [{ text: 'OK' }]);
+      }
+    };
+
+    if (mode === 'merge') {
+      runImport();
+      return;
+    }
+
+    Alert.alert(
+      'Replace All Goals',
+      'All goals on this device, including archived and trashed ones, will be replaced by the backup. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Replace', style: 'destructive', onPress: runImport },
+      ]
+    );
+  };
+
+  /**
+   * Handle sharing the goal list as an .ics calendar
+   */
+  const handleShareCalendar = async () => {
+    setIsBusy(true);
+    try {
+      const goals = (await goalStorage.getAllGoals()).filter(goalActions.isListed);
+      await shareTextFile(
+        getCalendarFileName(goals),
+        exportCalendar(goals, calendarComponent),
+        CALENDAR_FILE_TYPE,
+        'Export to calendar'
+      );
+    } catch (error) {
+      console.error('Error exporting calendar:', error);
+      Alert.alert('Error', 'Failed to export calendar. Please try again.', [{ text: 'OK' }]);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  /**
+   * Handle importing events and tasks from an .ics file as goals
+   */
+  const handleImportCalendar = async () => {
+    try {
+      const text = await pickTextFile(['text/calendar', 'text/plain']);
+      if (text === null) {
+        return;
+      }
+
+      const { goals, skipped } = parseCalendar(text);
+      if (goals.length === 0) {
+        Alert.alert('Nothing to Import', 'The calendar has no events or tasks with a date.', [{ text: 'OK' }]);
+        return;
+      }
+
+      const skippedNote = skipped > 0 ? ` ${skipped} entry(ies) without a date will be skipped.` : '';
+      Alert.alert(
+        'Import Calendar',
+        `Import ${goals.length} goal(s) from this calendar? Goals that are already on this device only get their title, description, deadline, tags and reminders updated.${skippedNote}`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Import',
+            onPress: async () => {
+              setIsBusy(true);
+              const result = await goalActions.importCalendar(goals);
+              if (result) {
+                await tagStorage.ensureTags(goals.flatMap(goal => goal.tags ?? []));
+              }
+              setIsBusy(false);
+
+              if (result) {
+                Alert.alert(
+                  'Import Complete',
+                  `${result.added} goal(s) added, ${result.updated} updated.`,
+                  [{ text: 'OK', onPress: () => navigation.goBack() }]
+                );
+              } else {
+                Alert.alert('Error', 'Failed to import goals. Please try again.', [{ text: 'OK' }]);
+              }
+            },
+          },
+        ]
+      );
+    } catch (error) {
+      console.error('Error reading calendar:', error);
+      const message = error instanceof Error ? error.message : 'Failed to read the calendar file.';
+      Alert.alert('Error', message, [{ text: 'OK' }]);
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.scrollContent}>
+      {/* Export */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Export</Text>
+        <Text style={styles.sectionText}>
+          Save every goal, including archived and trashed ones, to a JSON file you can keep somewhere safe.
+        </Text>
+        <View style={styles.buttonRow}>
+          <TouchableOpacity
+            style={[styles.primaryButton, isBusy && styles.buttonDisabled]}
+            onPress={handleShareBackup}
+            disabled={isBusy}
+          >
+            <Text style={styles.primaryButtonText}>Share Backup</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.secondaryButton, isBusy && styles.buttonDisabled]}
+            onPress={handleSaveBackup}
+            disabled={isBusy}
+          >
+            <Text style={styles.secondaryButtonText}>Save to Device</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {/* Import */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Import</Text>
+        <Text style={styles.sectionText}>
+          Restore goals from a backup file. Reminders are scheduled again for goals that are still active.
+        </Text>
+        <TouchableOpacity
+          style={[styles.primaryButton, isBusy && styles.buttonDisabled]}
+          onPress={handleChooseBackup}
+          disabled={isBusy}
+        >
+          <Text style={styles.primaryButtonText}>Choose Backup File</Text>
+        </TouchableOpacity>
+
+        {/* Import Report */}
+        {pendingImport && (
+          <View style={styles.report}>
+            <Text style={styles.reportTitle}>
+              {pendingImport.goals.length} valid goal(s)
+              {pendingImport.exportedAt
+                ? ` · exported ${new Date(pendingImport.exportedAt).toLocaleDateString()}`
+                : ''}
+            </Text>
+
+            {pendingImport.invalid.length > 0 && (
+              <View style={styles.invalidList}>
+                <Text style={styles.invalidTitle}>
+                  {pendingImport.invalid.length} entry(ies) will be skipped:
+                </Text>
+                {pendingImport.invalid.map(entry => (
+                  <Text key={entry.index} style={styles.invalidText}>
+                    • {entry.title || `Entry ${entry.index + 1}`}: {entry.errors.join(', ')}
+                  </Text>
+                ))}
+              </View>
+            )}
+
+            {pendingImport.goals.length > 0 ? (
+              <View style={styles.buttonRow}>
+                <TouchableOpacity
+                  style={[styles.primaryButton, isBusy && styles.buttonDisabled]}
+                  onPress={() => handleImport('merge')}
+                  disabled={isBusy}
+                >
+                  <Text style={styles.primaryButtonText}>Merge</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.destructiveButton, isBusy && styles.buttonDisabled]}
+                  onPress={() => handleImport('replace')}
+                  disabled={isBusy}
+                >
+                  <Text style={styles.destructiveButtonText}>Replace</Text>
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <Text style={styles.sectionText}>There are no goals to import.</Text>
+            )}
+            <Text style={styles.hint}>
+              Merge keeps your current goals and updates any with the same ID. Replace removes them first.
+            </Text>
+          </View>
+        )}
+      </View>
+
+      {/* Calendar */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Calendar</Text>
+        <Text style={styles.sectionText}>
+          Export your goals to an .ics file with their reminders, or turn calendar events and tasks into goals.
+        </Text>
+        <View style={styles.optionRow}>
+          {(['VEVENT', 'VTODO'] as const).map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.optionChip, calendarComponent === option && styles.optionChipActive]}
+              onPress={() => setCalendarComponent(option)}
+            >
+              <Text
+                style={[
+                  styles.optionChipText,
+                  calendarComponent === option && styles.optionChipTextActive,
+                ]}
+              >
+                {option === 'VEVENT' ? 'As Events' : 'As Tasks'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <View style={styles.buttonRow}>
+          <TouchableOpacity
+            style={[styles.primaryButton, isBusy && styles.buttonDisabled]}
+            onPress={handleShareCalendar}
+            disabled={isBusy}
+          >
+            <Text style={styles.primaryButtonText}>Export .ics</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.secondaryButton, isBusy && styles.buttonDisabled]}
+            onPress={handleImportCalendar}
+            disabled={isBusy}
+          >
+            <Text style={styles.secondaryButtonText}>Import .ics</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8F9FA',
+  },
+  scrollContent: {
+    paddingBottom: 20,
+  },
+  section: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginHorizontal: 16,
+    marginTop: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  sectionText: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  primaryButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#007AFF',
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  secondaryButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    backgroundColor: 'white',
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  destructiveButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#FF3B30',
+    backgroundColor: 'white',
+    alignItems: 'center',
+  },
+  destructiveButtonText: {
+    fontSize: 16,
+    color: '#FF3B30',
+    fontWeight: '600',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  optionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#F0F0F0',
+    borderWidth: 1,
+    borderColor: '#DDD',
+  },
+  optionChipActive: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  optionChipText: {
+    fontSize: 12,
+    color: '#666',
+    fontWeight: '500',
+  },
+  optionChipTextActive: {
+    color: 'white',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  report: {
+    marginTop: 16,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E9ECEF',
+  },
+  reportTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  invalidList: {
+    backgroundColor: '#FFF5F5',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  invalidTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FF3B30',
+    marginBottom: 4,
+  },
+  invalidText: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 12,
+  },
+});
@@ -1,22 +1,53 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
   StyleSheet,
-  TextInput,
   TouchableOpacity,
   ScrollView,
   Alert,
   KeyboardAvoidingView,
   Platform,
 } from 'react-native';
-import { DatePicker } from '../components/DatePicker';
-import { TimePicker } from '../components/TimePicker';
-import { GoalStorage, Goal } from '../storage/storage';
+import { GoalForm } from '../components/GoalForm';
+import { Goal } from '../storage/storage';
 import { NotificationManager } from '../utils/notifications';
+import { DEFAULT_REMINDER_OFFSETS } from '../utils/reminders';
+import { GoalFormValues, validateGoalForm } from '../utils/validation';
+import { getDeviceTimeZone, zonedTimeToUtc } from '../utils/timezone';
+import { normalizeRecurrenceRule } from '../utils/recurrence';
+import { buildMilestones } from '../utils/milestones';
+import { applyTemplate, createTemplateFromForm } from '../utils/templates';
+import { useStorage } from '../components/StorageProvider';
+
+/**
+ * Blank form - new goals are created in the device's current time zone
+ */
+const createEmptyForm = (): GoalFormValues => ({
+  kind: 'countdown',
+  title: '',
+  description: '',
+  deadlineDate: '',
+  deadlineTime: '',
+  timeZone: getDeviceTimeZone(),
+  startDate: '',
+  recurrence: null,
+  milestones: [],
+  tags: [],
+  reminderOffsets: DEFAULT_REMINDER_OFFSETS,
+  countdownMode: 'calendar',
+  targetValue: '',
+  unit: '',
+  dependsOn: [],
+});
 
 interface CreateGoalScreenProps {
   navigation: any;
+  route?: {
+    params?: {
+      templateId?: string; // Pre-fill the form from this template
+    };
+  };
   onGoalCreated?: (goal: Goal) => void;
 }
 
@@ -24,73 +55,61 @@ interface CreateGoalScreenProps {
  * CreateGoalScreen component for creating new goals
  * Features form validation, custom date/time pickers, and goal creation
  * Handles all form inputs and validation before saving to storage
+ * Can start from a saved template, and save the current form as one
  */
 export const CreateGoalScreen: React.FC<CreateGoalScreenProps> = ({
   navigation,
+  route,
   onGoalCreated,
 }) => {
-  const [title, setTitle] = useState<string>('');
-  const [description, setDescription] = useState<string>('');
-  const [deadlineDate, setDeadlineDate] = useState<string>('');
-  const [deadlineTime, setDeadlineTime] = useState<string>('');
+  const { goalStorage, tagStorage, templateStorage } = useStorage();
+  const templateId = route?.params?.templateId;
+  const [formValues, setFormValues] = useState<GoalFormValues>(createEmptyForm);
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [otherGoals, setOtherGoals] = useState<Goal[]>([]);
 
-  /**
-   * Validate form inputs
-   */
-  const validateForm = (): { isValid: boolean; errors: string[] } => {
-    const errors: string[] = [];
-
-    // Title validation
-    if (!title.trim()) {
-      errors.push('Title is required');
-    } else if (title.trim().length < 3) {
-      errors.push('Title must be at least 3 characters long');
+  useEffect(() => {
+    if (templateId) {
+      loadTemplate(templateId);
     }
+  }, [templateId]);
 
-    // Date validation
-    if (!deadlineDate) {
-      errors.push('Deadline date is required');
-    } else {
-      // Check if date is in the past
-      const [year, month, day] = deadlineDate.split('-').map(Number);
-      const selectedDate = new Date(year, month - 1, day);
-      const today = new Date();
-      today.setHours(0, 0, 0, 0); // Reset time to start of day
-      
-      if (selectedDate < today) {
-        errors.push('Deadline date cannot be in the past');
+  /**
+   * Load the existing goals the new goal can depend on
+   */
+  useEffect(() => {
+    const loadGoals = async () => {
+      try {
+        setOtherGoals(await goalStorage.getAllGoals());
+      } catch (error) {
+        console.error('Error loading goals:', error);
       }
-    }
+    };
 
-    // Time validation
-    if (!deadlineTime) {
-      errors.push('Deadline time is required');
+    loadGoals();
+  }, [goalStorage]);
+
+  /**
+   * Pre-fill the form from a template, resolving its deadline against today
+   */
+  const loadTemplate = async (id: string) => {
+    const template = await templateStorage.getTemplate(id);
+    if (template) {
+      setFormValues(applyTemplate(template, getDeviceTimeZone()));
     } else {
-      // If date is today, check if time is in the past
-      if (deadlineDate) {
-        const [year, month, day] = deadlineDate.split('-').map(Number);
-        const [hour, minute] = deadlineTime.split(':').map(Number);
-        const selectedDateTime = new Date(year, month - 1, day, hour, minute);
-        const now = new Date();
-        
-        if (selectedDateTime <= now) {
-          errors.push('Deadline time cannot be in the past');
-        }
-      }
+      Alert.alert(
+        'Error',
+        'Template not found. It may have been deleted.',
+        [{ text: 'OK' }]
+      );
     }
-
-    return {
-      isValid: errors.length === 0,
-      errors,
-    };
   };
 
   /**
    * Handle goal creation
    */
   const handleCreateGoal = async () => {
-    const validation = validateForm();
+    const validation = validateGoalForm(formValues);
     
     if (!validation.isValid) {
       Alert.alert(
@@ -105,32 +124,51 @@ export const CreateGoalScreen: React.FC<CreateGoalScreenProps> = ({
 
     try {
       // Create new goal object
+      const createdAt = new Date().toISOString();
       const newGoal: Goal = {
-        id: GoalStorage.generateId(),
-        title: title.trim(),
-        description: description.trim() || undefined,
-        deadlineDate,
-        deadlineTime,
-        createdAt: new Date().toISOString(),
+        id: goalStorage.generateId(),
+        kind: formValues.kind === 'countUp' ? 'countUp' : undefined,
+        title: formValues.title.trim(),
+        description: formValues.description.trim() || undefined,
+        deadlineDate: formValues.deadlineDate,
+        deadlineTime: formValues.deadlineTime,
+        deadlineAt: zonedTimeToUtc(
+          formValues.deadlineDate,
+          formValues.deadlineTime,
+          formValues.timeZone
+        ).toISOString(),
+        timeZone: formValues.timeZone,
+        startDate: formValues.startDate || undefined,
+        recurrence: formValues.recurrence
+          ? normalizeRecurrenceRule(formValues.recurrence, formValues.deadlineDate)
+          : undefined,
+        milestones: formValues.milestones.length > 0
+          ? buildMilestones(formValues.milestones, formValues.timeZone)
+          : undefined,
+        tags: formValues.tags.length > 0 ? formValues.tags : undefined,
+        reminderOffsets: formValues.reminderOffsets,
+        countdownMode: formValues.countdownMode !== 'calendar' ? formValues.countdownMode : undefined,
+        targetValue: formValues.targetValue.trim() ? Number(formValues.targetValue) : undefined,
+        unit: formValues.unit.trim() || undefined,
+        dependsOn: formValues.dependsOn.length > 0 ? formValues.dependsOn : undefined,
+        createdAt,
+        status: 'active',
+        statusChangedAt: createdAt,
       };
 
-      // Save to storage
-      const success = await GoalStorage.saveGoal(newGoal);
+      // Schedule notifications first so the goal is saved with their IDs in a single write
+      try {
+        newGoal.notificationIds = await NotificationManager.scheduleMultipleGoalNotifications(newGoal);
+      } catch (notificationError) {
+        console.error('Error scheduling notifications:', notificationError);
+        // Don't fail the goal creation if notifications fail
+      }
+
+      // Save to storage, registering any new tags
+      await tagStorage.ensureTags(formValues.tags);
+      const success = await goalStorage.saveGoal(newGoal);
       
       if (success) {
-        // Schedule notifications for the goal
-        try {
-          const notificationIds = await NotificationManager.scheduleMultipleGoalNotifications(newGoal);
-          if (notificationIds.length > 0) {
-            // Update goal with notification IDs
-            newGoal.notificationIds = notificationIds;
-            await GoalStorage.updateGoal(newGoal.id, { notificationIds });
-          }
-        } catch (notificationError) {
-          console.error('Error scheduling notifications:', notificationError);
-          // Don't fail the goal creation if notifications fail
-        }
-
         Alert.alert(
           'Success',
           'Goal created successfully!',
@@ -139,10 +177,7 @@ export const CreateGoalScreen: React.FC<CreateGoalScreenProps> = ({
               text: 'OK',
               onPress: () => {
                 // Reset form
-                setTitle('');
-                setDescription('');
-                setDeadlineDate('');
-                setDeadlineTime('');
+                setFormValues(createEmptyForm());
                 
                 // Navigate back or call callback
                 if (onGoalCreated) {
@@ -156,6 +191,8 @@ export const CreateGoalScreen: React.FC<CreateGoalScreenProps> = ({
           ]
         );
       } else {
+        // Don't leave reminders behind for a goal that wasn't saved
+        await NotificationManager.cancelGoalNotifications(newGoal.id);
         Alert.alert(
           'Error',
           'Failed to save goal. Please try again.',
@@ -174,11 +211,49 @@ export const CreateGoalScreen: React.FC<CreateGoalScreenProps> = ({
     }
   };
 
+  /**
+   * Handle saving the form as a template named after the goal title
+   * The deadline is stored relative to today, e.g. "+14 days at 18:00"
+   */
+  const handleSaveTemplate = async () => {
+    const name = formValues.title.trim();
+    if (!name) {
+      Alert.alert(
+        'Validation Error',
+        'Enter a title to save this goal as a template.',
+        [{ text: 'OK' }]
+      );
+      return;
+    }
+
+    const template = createTemplateFromForm(templateStorage.generateId(), name, formValues);
+    const success = await templateStorage.saveTemplate(template);
+    if (success) {
+      Alert.alert(
+        'Template Saved',
+        `"${name}" is now available under New from Template.`,
+        [{ text: 'OK' }]
+      );
+    } else {
+      Alert.alert(
+        'Error',
+        'Failed to save template. Please try again.',
+        [{ text: 'OK' }]
+      );
+    }
+  };
+
   /**
    * Handle cancel action
    */
   const handleCancel = () => {
-    if (title.trim() || description.trim() || deadlineDate || deadlineTime) {
+    const { title, description, deadlineDate, deadlineTime } = formValues;
+    const hasInput =
+      title.trim() || description.trim() || deadlineDate || deadlineTime || formValues.startDate ||
+      formValues.recurrence || formValues.milestones.length > 0 || formValues.tags.length > 0 ||
+      formValues.targetValue.trim() || formValues.dependsOn.length > 0;
+
+    if (hasInput) {
       Alert.alert(
         'Discard Changes',
         'Are you sure you want to discard your changes?',
@@ -188,10 +263,7 @@ export const CreateGoalScreen: React.FC<CreateGoalScreenProps> = ({
             text: 'Discard',
             style: 'destructive',
             onPress: () => {
-              setTitle('');
-              setDescription('');
-              setDeadlineDate('');
-              setDeadlineTime('');
+              setFormValues(createEmptyForm());
               if (navigation) {
                 navigation.goBack();
               }
@@ -225,72 +297,16 @@ export const CreateGoalScreen: React.FC<CreateGoalScreenProps> = ({
         </View>
 
         {/* Form */}
-        <View style={styles.form}>
-          {/* Title Input */}
-          <View style={styles.inputGroup}>
-            <Text style={styles.label}>Goal Title *</Text>
-            <TextInput
-              style={styles.textInput}
-              value={title}
-              onChangeText={setTitle}
-              placeholder="Enter your goal title"
-              placeholderTextColor="#999"
-              maxLength={100}
-            />
-            <Text style={styles.characterCount}>
-              {title.length}/100 characters
-            </Text>
-          </View>
-
-          {/* Description Input */}
-          <View style={styles.inputGroup}>
-            <Text style={styles.label}>Description (Optional)</Text>
-            <TextInput
-              style={[styles.textInput, styles.textArea]}
-              value={description}
-              onChangeText={setDescription}
-              placeholder="Describe your goal in detail"
-              placeholderTextColor="#999"
-              multiline
-              numberOfLines={4}
-              maxLength={500}
-              textAlignVertical="top"
-            />
-            <Text style={styles.characterCount}>
-              {description.length}/500 characters
-            </Text>
-          </View>
+        <GoalForm values={formValues} onChange={setFormValues} goals={otherGoals} />
 
-          {/* Date Picker */}
-          <View style={styles.inputGroup}>
-            <Text style={styles.label}>Deadline Date *</Text>
-            <DatePicker
-              selectedDate={deadlineDate}
-              onDateChange={setDeadlineDate}
-              placeholder="Select deadline date"
-            />
-          </View>
-
-          {/* Time Picker */}
-          <View style={styles.inputGroup}>
-            <Text style={styles.label}>Deadline Time *</Text>
-            <TimePicker
-              selectedTime={deadlineTime}
-              onTimeChange={setDeadlineTime}
-              placeholder="Select deadline time"
-            />
-          </View>
-
-          {/* Preview */}
-          {(deadlineDate && deadlineTime) && (
-            <View style={styles.previewContainer}>
-              <Text style={styles.previewTitle}>Preview</Text>
-              <Text style={styles.previewText}>
-                Deadline: {new Date(`${deadlineDate}T${deadlineTime}`).toLocaleString()}
-              </Text>
-            </View>
-          )}
-        </View>
+        {/* Template */}
+        <TouchableOpacity
+          style={styles.templateButton}
+          onPress={handleSaveTemplate}
+          disabled={isLoading}
+        >
+          <Text style={styles.templateButtonText}>Save as Template</Text>
+        </TouchableOpacity>
 
         {/* Action Buttons */}
         <View style={styles.buttonContainer}>
@@ -348,54 +364,18 @@ const styles = StyleSheet.create({
     color: '#666',
     lineHeight: 22,
   },
-  form: {
-    padding: 20,
-  },
-  inputGroup: {
-    marginBottom: 20,
-  },
-  label: {
-    fontSize: 16,
-    fontWeight: '600',
-    color: '#333',
-    marginBottom: 8,
-  },
-  textInput: {
-    borderWidth: 1,
-    borderColor: '#DDD',
-    borderRadius: 8,
-    paddingHorizontal: 16,
+  templateButton: {
+    marginHorizontal: 20,
     paddingVertical: 12,
-    fontSize: 16,
-    backgroundColor: 'white',
-    color: '#333',
-  },
-  textArea: {
-    height: 100,
-    textAlignVertical: 'top',
-  },
-  characterCount: {
-    fontSize: 12,
-    color: '#999',
-    textAlign: 'right',
-    marginTop: 4,
-  },
-  previewContainer: {
-    backgroundColor: '#E3F2FD',
-    padding: 16,
     borderRadius: 8,
     borderWidth: 1,
-    borderColor: '#BBDEFB',
-  },
-  previewTitle: {
-    fontSize: 14,
-    fontWeight: 'bold',
-    color: '#1976D2',
-    marginBottom: 4,
+    borderColor: '#007AFF',
+    alignItems: 'center',
   },
-  previewText: {
+  templateButtonText: {
     fontSize: 14,
-    color: '#1976D2',
+    color: '#007AFF',
+    fontWeight: '600',
   },
   buttonContainer: {
     flexDirection: 'row',
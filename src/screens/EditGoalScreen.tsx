@@ -0,0 +1,384 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { GoalForm } from '../components/GoalForm';
+import { Goal } from '../storage/storage';
+import { NotificationManager } from '../utils/notifications';
+import { getReminderOffsets } from '../utils/reminders';
+import { GoalFormValues, validateGoalForm } from '../utils/validation';
+import { zonedTimeToUtc } from '../utils/timezone';
+import { normalizeRecurrenceRule } from '../utils/recurrence';
+import { buildMilestones, toMilestoneFormValues } from '../utils/milestones';
+import { createsDependencyCycle } from '../utils/dependencies';
+import { useStorage } from '../components/StorageProvider';
+
+interface EditGoalScreenProps {
+  navigation: any;
+  route: { params: { goalId: string } };
+}
+
+/**
+ * EditGoalScreen component for editing an existing goal
+ * Loads the goal by ID, pre-fills the shared goal form and saves changes
+ * Reschedules deadline reminders whenever the goal is updated
+ */
+export const EditGoalScreen: React.FC<EditGoalScreenProps> = ({
+  navigation,
+  route,
+}) => {
+  const { goalStorage, goalActions, tagStorage } = useStorage();
+  const { goalId } = route.params;
+  const [goal, setGoal] = useState<Goal | null>(null);
+  const [formValues, setFormValues] = useState<GoalFormValues | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [otherGoals, setOtherGoals] = useState<Goal[]>([]);
+
+  /**
+   * Load the goal being edited and pre-fill the form
+   * Also loads the other goals it can depend on
+   */
+  useEffect(() => {
+    const loadGoal = async () => {
+      try {
+        setOtherGoals(await goalStorage.getAllGoals());
+      } catch (error) {
+        console.error('Error loading goals:', error);
+      }
+
+      const existingGoal = await goalStorage.getGoal(goalId);
+
+      if (!existingGoal) {
+        Alert.alert(
+          'Error',
+          'This goal no longer exists.',
+          [{ text: 'OK', onPress: () => navigation.goBack() }]
+        );
+        return;
+      }
+
+      setGoal(existingGoal);
+      setFormValues({
+        kind: existingGoal.kind ?? 'countdown',
+        title: existingGoal.title,
+        description: existingGoal.description ?? '',
+        deadlineDate: existingGoal.deadlineDate,
+        deadlineTime: existingGoal.deadlineTime,
+        timeZone: existingGoal.timeZone,
+        startDate: existingGoal.startDate ?? '',
+        recurrence: existingGoal.recurrence ?? null,
+        milestones: toMilestoneFormValues(existingGoal.milestones),
+        tags: existingGoal.tags ?? [],
+        reminderOffsets: getReminderOffsets(existingGoal),
+        countdownMode: existingGoal.countdownMode ?? 'calendar',
+        targetValue: existingGoal.targetValue?.toString() ?? '',
+        unit: existingGoal.unit ?? '',
+        dependsOn: existingGoal.dependsOn ?? [],
+      });
+    };
+
+    loadGoal();
+  }, [goalId, goalStorage]);
+
+  /**
+   * Check whether the form differs from the stored goal
+   */
+  const hasChanges = (): boolean => {
+    if (!goal || !formValues) return false;
+
+    return (
+      formValues.kind !== (goal.kind ?? 'countdown') ||
+      formValues.title !== goal.title ||
+      formValues.description !== (goal.description ?? '') ||
+      formValues.deadlineDate !== goal.deadlineDate ||
+      formValues.deadlineTime !== goal.deadlineTime ||
+      formValues.startDate !== (goal.startDate ?? '') ||
+      JSON.stringify(formValues.recurrence) !== JSON.stringify(goal.recurrence ?? null) ||
+      JSON.stringify(formValues.milestones) !== JSON.stringify(toMilestoneFormValues(goal.milestones)) ||
+      JSON.stringify(formValues.tags) !== JSON.stringify(goal.tags ?? []) ||
+      JSON.stringify(formValues.reminderOffsets) !== JSON.stringify(getReminderOffsets(goal)) ||
+      formValues.countdownMode !== (goal.countdownMode ?? 'calendar') ||
+      formValues.targetValue !== (goal.targetValue?.toString() ?? '') ||
+      formValues.unit !== (goal.unit ?? '') ||
+      JSON.stringify(formValues.dependsOn) !== JSON.stringify(goal.dependsOn ?? [])
+    );
+  };
+
+  /**
+   * Handle saving the edited goal
+   * An expired or closed goal can still be edited without moving its deadline;
+   * moving a closed goal's deadline into the future reopens it
+   */
+  const handleSaveGoal = async () => {
+    if (!goal || !formValues) return;
+
+    const validation = validateGoalForm(formValues, goal.deadlineAt);
+
+    if (!validation.isValid) {
+      Alert.alert(
+        'Validation Error',
+        validation.errors.join('\n'),
+        [{ text: 'OK' }]
+      );
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      // Another goal may have started depending on this one since the form was opened
+      const allGoals = await goalStorage.getAllGoals();
+      if (createsDependencyCycle(goal.id, formValues.dependsOn, allGoals)) {
+        Alert.alert(
+          'Validation Error',
+          'One of the selected goals already depends on this goal. Goals can\'t wait on each other.',
+          [{ text: 'OK' }]
+        );
+        return;
+      }
+
+      const deadlineAt = zonedTimeToUtc(
+        formValues.deadlineDate,
+        formValues.deadlineTime,
+        formValues.timeZone
+      ).toISOString();
+      const reopens = goal.status !== 'active' &&
+        deadlineAt !== goal.deadlineAt &&
+        new Date(deadlineAt).getTime() > Date.now();
+
+      const changes: Partial<Goal> = {
+        kind: formValues.kind === 'countUp' ? 'countUp' : undefined,
+        title: formValues.title.trim(),
+        description: formValues.description.trim() || undefined,
+        deadlineDate: formValues.deadlineDate,
+        deadlineTime: formValues.deadlineTime,
+        deadlineAt,
+        timeZone: formValues.timeZone,
+        startDate: formValues.startDate || undefined,
+        recurrence: formValues.recurrence
+          ? normalizeRecurrenceRule(formValues.recurrence, formValues.deadlineDate)
+          : undefined,
+        milestones: formValues.milestones.length > 0
+          ? buildMilestones(formValues.milestones, formValues.timeZone)
+          : undefined,
+        tags: formValues.tags.length > 0 ? formValues.tags : undefined,
+        ...(reopens ? { status: 'active', statusChangedAt: new Date().toISOString() } : {}),
+        // Goals on the default reminders keep them implicit until the user changes them
+        reminderOffsets:
+          JSON.stringify(formValues.reminderOffsets) !== JSON.stringify(getReminderOffsets(goal))
+            ? formValues.reminderOffsets
+            : goal.reminderOffsets,
+        countdownMode: formValues.countdownMode !== 'calendar' ? formValues.countdownMode : undefined,
+        targetValue: formValues.targetValue.trim() ? Number(formValues.targetValue) : undefined,
+        unit: formValues.unit.trim() || undefined,
+        dependsOn: formValues.dependsOn.length > 0 ? formValues.dependsOn : undefined,
+      };
+
+      await tagStorage.ensureTags(formValues.tags);
+      const success = await goalStorage.updateGoal(goal.id, changes);
+
+      if (success) {
+        // Reschedule reminders against the new deadline, closed, archived and trashed goals get none
+        try {
+          const updatedGoal: Goal = { ...goal, ...changes };
+          let notificationIds: string[] = [];
+          if (updatedGoal.status === 'active' && goalActions.isListed(updatedGoal)) {
+            notificationIds = await NotificationManager.rescheduleGoalNotifications(updatedGoal);
+          } else {
+            await NotificationManager.cancelGoalNotifications(goal.id);
+          }
+          await goalStorage.updateGoal(goal.id, { notificationIds });
+        } catch (notificationError) {
+          console.error('Error rescheduling notifications:', notificationError);
+          // Don't fail the update if notifications fail
+        }
+
+        Alert.alert(
+          'Success',
+          'Goal updated successfully!',
+          [{ text: 'OK', onPress: () => navigation.goBack() }]
+        );
+      } else {
+        Alert.alert(
+          'Error',
+          'Failed to update goal. Please try again.',
+          [{ text: 'OK' }]
+        );
+      }
+    } catch (error) {
+      console.error('Error updating goal:', error);
+      Alert.alert(
+        'Error',
+        'An unexpected error occurred. Please try again.',
+        [{ text: 'OK' }]
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Handle cancel action
+   */
+  const handleCancel = () => {
+    if (hasChanges()) {
+      Alert.alert(
+        'Discard Changes',
+        'Are you sure you want to discard your changes?',
+        [
+          { text: 'Keep Editing', style: 'cancel' },
+          {
+            text: 'Discard',
+            style: 'destructive',
+            onPress: () => navigation.goBack(),
+          },
+        ]
+      );
+    } else {
+      navigation.goBack();
+    }
+  };
+
+  if (!formValues) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.loadingText}>Loading goal...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <Text style={styles.title}>Edit Goal</Text>
+          <Text style={styles.subtitle}>
+            Update the details or move the deadline of your goal
+          </Text>
+        </View>
+
+        {/* Form */}
+        <GoalForm
+          values={formValues}
+          onChange={setFormValues}
+          goalId={goalId}
+          goals={otherGoals}
+        />
+
+        {/* Action Buttons */}
+        <View style={styles.buttonContainer}>
+          <TouchableOpacity
+            style={styles.cancelButton}
+            onPress={handleCancel}
+            disabled={isLoading}
+          >
+            <Text style={styles.cancelButtonText}>Cancel</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[
+              styles.saveButton,
+              isLoading && styles.saveButtonDisabled,
+            ]}
+            onPress={handleSaveGoal}
+            disabled={isLoading}
+          >
+            <Text style={styles.saveButtonText}>
+              {isLoading ? 'Saving...' : 'Save Changes'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8F9FA',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F8F9FA',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: 20,
+  },
+  header: {
+    padding: 20,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E9ECEF',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    lineHeight: 22,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#DDD',
+    backgroundColor: 'white',
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    color: '#666',
+    fontWeight: '600',
+  },
+  saveButton: {
+    flex: 2,
+    paddingVertical: 16,
+    borderRadius: 8,
+    backgroundColor: '#007AFF',
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    backgroundColor: '#CCC',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    color: 'white',
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,373 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { Goal, HistoryEntry } from '../storage/storage';
+import { CountdownUtils } from '../components/Countdown';
+import { GOAL_STATE_BADGES, getGoalDisplayState } from '../utils/goalStatus';
+import {
+  FIELD_LABELS,
+  HISTORY_ACTION_LABELS,
+  describeDeadlineDrift,
+  formatDriftDuration,
+  formatHistoryValue,
+} from '../utils/history';
+import {
+  PACE_COLORS,
+  PACE_LABELS,
+  describeProgress,
+  describeRequiredRate,
+  formatQuantity,
+  getPace,
+} from '../utils/progress';
+import {
+  formatStreakLength,
+  getCurrentStreakLength,
+  getLongestStreakLength,
+  getStreakLength,
+  isCountUp,
+} from '../utils/streaks';
+import { useStorage } from '../components/StorageProvider';
+
+interface GoalDetailScreenProps {
+  navigation: any;
+  route: {
+    params: {
+      goalId: string;
+    };
+  };
+}
+
+/**
+ * Format an ISO timestamp with date and time for history rows
+ */
+const formatTimestamp = (isoTimestamp: string): string => {
+  const date = new Date(isoTimestamp);
+  return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`;
+};
+
+/**
+ * GoalDetailScreen component shows a goal with its change history and logged progress
+ * Lists every recorded change with before and after values, newest first,
+ * and how often and how far the deadline was pushed back
+ * Count-up trackers list their past streaks instead of deadline changes
+ */
+export const GoalDetailScreen: React.FC<GoalDetailScreenProps> = ({ navigation, route }) => {
+  const { goalStorage } = useStorage();
+  const { goalId } = route.params;
+  const [goal, setGoal] = useState<Goal | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  // Reload on focus so edits made from this screen show up
+  useFocusEffect(
+    useCallback(() => {
+      goalStorage.getGoal(goalId).then(loadedGoal => {
+        setGoal(loadedGoal);
+        setIsLoading(false);
+      });
+    }, [goalId, goalStorage])
+  );
+
+  if (isLoading) {
+    return (
+      <View style={styles.centerContainer}>
+        <Text style={styles.mutedText}>Loading...</Text>
+      </View>
+    );
+  }
+
+  if (!goal) {
+    return (
+      <View style={styles.centerContainer}>
+        <Text style={styles.mutedText}>This goal no longer exists.</Text>
+      </View>
+    );
+  }
+
+  const badge = GOAL_STATE_BADGES[getGoalDisplayState(goal)];
+  const drift = describeDeadlineDrift(goal);
+  const extensions = goal.deadlineExtensions ?? [];
+  const history = [...(goal.history ?? [])].reverse();
+  const pace = getPace(goal);
+  const progressLog = [...(goal.progressLog ?? [])].reverse();
+  const countsUp = isCountUp(goal);
+  const streaks = [...(goal.streaks ?? [])].reverse();
+
+  /**
+   * Render one history entry with its field changes
+   */
+  const renderHistoryEntry = (entry: HistoryEntry, index: number) => (
+    <View key={`${entry.at}-${index}`} style={styles.historyEntry}>
+      <View style={styles.historyHeader}>
+        <Text style={styles.historyAction}>{HISTORY_ACTION_LABELS[entry.action]}</Text>
+        <Text style={styles.historyTime}>{formatTimestamp(entry.at)}</Text>
+      </View>
+      {entry.changes.map(change => (
+        <Text key={change.field} style={styles.historyChange}>
+          {FIELD_LABELS[change.field] ?? change.field}:{' '}
+          <Text style={styles.historyBefore}>{formatHistoryValue(change.field, change.before)}</Text>
+          {' → '}
+          <Text style={styles.historyAfter}>{formatHistoryValue(change.field, change.after)}</Text>
+        </Text>
+      ))}
+    </View>
+  );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.scrollContent}>
+      {/* Goal Summary */}
+      <View style={styles.section}>
+        <View style={styles.titleRow}>
+          <Text style={styles.title}>{goal.title}</Text>
+          {badge && (
+            <View style={[styles.badge, { backgroundColor: badge.color }]}>
+              <Text style={styles.badgeText}>{badge.label}</Text>
+            </View>
+          )}
+        </View>
+        {goal.description && <Text style={styles.description}>{goal.description}</Text>}
+        <Text style={styles.metaText}>
+          {countsUp ? 'Counting since' : 'Deadline'}: {CountdownUtils.formatDeadline(goal.deadlineAt, goal.timeZone)}
+        </Text>
+        <Text style={styles.metaText}>Created: {formatTimestamp(goal.createdAt)}</Text>
+        {goal.startDate && <Text style={styles.metaText}>Starts: {goal.startDate}</Text>}
+        <TouchableOpacity
+          style={styles.editButton}
+          onPress={() => navigation.navigate('EditGoal', { goalId: goal.id })}
+        >
+          <Text style={styles.editButtonText}>Edit Goal</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Progress */}
+      {pace && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Progress</Text>
+          <View style={styles.titleRow}>
+            <Text style={styles.progressTotal}>{describeProgress(goal)}</Text>
+            {goal.status === 'active' && (
+              <View style={[styles.badge, { backgroundColor: PACE_COLORS[pace.status] }]}>
+                <Text style={styles.badgeText}>{PACE_LABELS[pace.status]}</Text>
+              </View>
+            )}
+          </View>
+          <Text style={styles.metaText}>
+            Expected by now: {formatQuantity(pace.expected, goal.unit)}
+          </Text>
+          {goal.status === 'active' && describeRequiredRate(goal, pace) && (
+            <Text style={styles.metaText}>Needed: {describeRequiredRate(goal, pace)}</Text>
+          )}
+          {progressLog.length > 0 ? (
+            progressLog.map(entry => (
+              <View key={entry.id} style={styles.progressEntry}>
+                <Text style={styles.historyChange}>
+                  {entry.value > 0 ? '+' : ''}{formatQuantity(entry.value, goal.unit)}
+                </Text>
+                <Text style={styles.historyTime}>{formatTimestamp(entry.at)}</Text>
+              </View>
+            ))
+          ) : (
+            <Text style={styles.mutedText}>No progress logged yet.</Text>
+          )}
+        </View>
+      )}
+
+      {/* Streaks */}
+      {countsUp && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Streaks</Text>
+          <Text style={styles.progressTotal}>
+            Current: {formatStreakLength(getCurrentStreakLength(goal))}
+          </Text>
+          <Text style={styles.metaText}>
+            Longest: {formatStreakLength(getLongestStreakLength(goal))}
+          </Text>
+          {streaks.length > 0 ? (
+            streaks.map((streak, index) => (
+              <View key={`${streak.endedAt}-${index}`} style={styles.progressEntry}>
+                <Text style={styles.historyChange}>{formatStreakLength(getStreakLength(streak))}</Text>
+                <Text style={styles.historyTime}>Reset {formatTimestamp(streak.endedAt)}</Text>
+              </View>
+            ))
+          ) : (
+            <Text style={styles.mutedText}>Never reset.</Text>
+          )}
+        </View>
+      )}
+
+      {/* Deadline Drift */}
+      {!countsUp && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Deadline Changes</Text>
+          {drift ? (
+            <>
+              <Text style={styles.driftSummary}>{drift}</Text>
+              {extensions.map((extension, index) => (
+                <Text key={`${extension.at}-${index}`} style={styles.historyChange}>
+                  {new Date(extension.at).toLocaleDateString()}:{' '}
+                  {CountdownUtils.formatDeadline(extension.fromDeadlineAt, goal.timeZone)} →{' '}
+                  {CountdownUtils.formatDeadline(extension.toDeadlineAt, goal.timeZone)}{' '}
+                  <Text style={styles.driftAmount}>
+                    ({formatDriftDuration(
+                      new Date(extension.toDeadlineAt).getTime() - new Date(extension.fromDeadlineAt).getTime()
+                    )})
+                  </Text>
+                </Text>
+              ))}
+            </>
+          ) : (
+            <Text style={styles.mutedText}>The deadline has never been pushed back.</Text>
+          )}
+        </View>
+      )}
+
+      {/* History */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>History</Text>
+        {history.length > 0 ? (
+          history.map(renderHistoryEntry)
+        ) : (
+          <Text style={styles.mutedText}>No changes recorded yet.</Text>
+        )}
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8F9FA',
+  },
+  scrollContent: {
+    paddingBottom: 20,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F8F9FA',
+  },
+  section: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginHorizontal: 16,
+    marginTop: 16,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
+  badgeText: {
+    fontSize: 10,
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  description: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginBottom: 8,
+  },
+  metaText: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  editButton: {
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    alignItems: 'center',
+  },
+  editButtonText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  driftSummary: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#FF9500',
+    marginBottom: 8,
+  },
+  driftAmount: {
+    color: '#FF9500',
+  },
+  progressTotal: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  progressEntry: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#F0F0F0',
+  },
+  historyEntry: {
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F0F0F0',
+  },
+  historyHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  historyAction: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  historyTime: {
+    fontSize: 12,
+    color: '#999',
+  },
+  historyChange: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  historyBefore: {
+    color: '#999',
+    textDecorationLine: 'line-through',
+  },
+  historyAfter: {
+    color: '#333',
+    fontWeight: '500',
+  },
+  mutedText: {
+    fontSize: 14,
+    color: '#666',
+  },
+});
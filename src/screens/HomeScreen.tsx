@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -7,35 +7,164 @@ import {
   TouchableOpacity,
   RefreshControl,
   Alert,
+  TextInput,
+  ScrollView,
 } from 'react-native';
-import { GoalStorage, Goal } from '../storage/storage';
+import { useFocusEffect } from '@react-navigation/native';
+import { Goal, GoalStatus } from '../storage/storage';
 import { GoalItem } from '../components/GoalItem';
+import { Snackbar } from '../components/Snackbar';
 import { CountdownUtils } from '../components/Countdown';
 import { NotificationManager } from '../utils/notifications';
+import { advanceRecurringGoal } from '../utils/recurrence';
+import { GoalDisplayState, getGoalDisplayState, getTimeOverdue } from '../utils/goalStatus';
+import { DEFAULT_WORK_SCHEDULE, WorkSchedule } from '../storage/settings';
+import { Tag } from '../storage/tags';
+import { TagChip } from '../components/TagChip';
+import { BulkActionBar } from '../components/BulkActionBar';
+import { PromptModal } from '../components/PromptModal';
+import { BULK_EXTEND_OPTIONS, BulkAction, applyBulkAction, canApplyBulkAction } from '../utils/bulkEdit';
+import { getSearchTerms, matchesSearch } from '../utils/search';
+import { addProgressEntry, formatQuantity, getProgressTotal } from '../utils/progress';
+import { getOpenDependencies, isReadyToWorkOn } from '../utils/dependencies';
+import { isCountUp, resetStreak } from '../utils/streaks';
+import {
+  DEFAULT_LIST_VIEW,
+  DeadlineWindow,
+  GoalListView,
+  SmartList,
+  SortOption,
+  StatusFilter,
+} from '../storage/smartLists';
+import { DEADLINE_WINDOW_OPTIONS, isSameListView, matchesDeadlineWindow } from '../utils/smartLists';
+import { shareTextFile } from '../utils/files';
+import {
+  CALENDAR_FILE_TYPE,
+  CalendarComponent,
+  exportCalendar,
+  getCalendarFileName,
+} from '../utils/ical';
+import { useStorage } from '../components/StorageProvider';
 
 interface HomeScreenProps {
   navigation: any;
 }
 
+// Goals rendered at a time, more are shown as the list is scrolled
+const PAGE_SIZE = 50;
+
+const SORT_OPTIONS: { value: SortOption; label: string }[] = [
+  { value: 'deadline', label: 'Deadline' },
+  { value: 'created', label: 'Created' },
+  { value: 'title', label: 'Title' },
+  { value: 'overdue', label: 'Most overdue' },
+];
+
+const FILTER_OPTIONS: StatusFilter[] = ['all', 'ready', 'active', 'expired', 'achieved', 'missed', 'abandoned'];
+
+// Empty state message for each filter
+const EMPTY_MESSAGES: Record<StatusFilter, string> = {
+  all: 'Create your first goal to get started!',
+  ready: 'No goals are ready to work on. Blocked goals are waiting on others.',
+  active: 'No active goals at the moment.',
+  expired: 'No goals are waiting for an outcome.',
+  achieved: 'No achieved goals yet.',
+  missed: 'No missed goals.',
+  abandoned: 'No abandoned goals.',
+};
+
 /**
  * HomeScreen component displays all goals with countdown timers
  * Features goal management, sorting, filtering, and real-time updates
  * Handles goal deletion and navigation to create new goals
+ * Long-pressing a goal starts a selection for bulk actions
  */
 export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
+  const { goalStorage, goalActions, settingsStorage, tagStorage, holidayStorage, smartListStorage } = useStorage();
   const [goals, setGoals] = useState<Goal[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [isRefreshing, setIsRefreshing] = useState<boolean>(false);
-  const [sortBy, setSortBy] = useState<'deadline' | 'created' | 'title'>('deadline');
-  const [filterBy, setFilterBy] = useState<'all' | 'active' | 'expired'>('all');
+  const [sortBy, setSortBy] = useState<SortOption>(DEFAULT_LIST_VIEW.sortBy);
+  const [filterBy, setFilterBy] = useState<StatusFilter>(DEFAULT_LIST_VIEW.filterBy);
+  const [deadlineWindow, setDeadlineWindow] = useState<DeadlineWindow>(DEFAULT_LIST_VIEW.deadlineWindow);
+  const [isViewLoaded, setIsViewLoaded] = useState<boolean>(false);
+  const [smartLists, setSmartLists] = useState<SmartList[]>([]);
+  const [workSchedule, setWorkSchedule] = useState<WorkSchedule>(DEFAULT_WORK_SCHEDULE);
+  const [holidays, setHolidays] = useState<string[]>([]);
+  const [isSavingList, setIsSavingList] = useState<boolean>(false);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  // Kept while other screens are pushed on top, so the search survives creating a goal
+  const [searchQuery, setSearchQuery] = useState<string>('');
+  const [snackbar, setSnackbar] = useState<{ message: string; onUndo: () => void } | null>(null);
+  const [isSelecting, setIsSelecting] = useState<boolean>(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkPrompt, setBulkPrompt] = useState<'tag' | 'extend' | null>(null);
+  const [progressGoal, setProgressGoal] = useState<Goal | null>(null); // Goal being logged against
+  // Number of sorted and filtered goals rendered so far
+  const [visibleCount, setVisibleCount] = useState<number>(PAGE_SIZE);
+  // Old trash is purged once per launch rather than on every focus
+  const hasPurgedTrashRef = useRef<boolean>(false);
 
   /**
-   * Load goals from storage
+   * Close the current occurrence of a recurring goal and move it to the next one
+   * Persists the rolled goal and schedules reminders for the upcoming occurrence
+   */
+  const advanceOccurrence = useCallback(async (
+    goal: Goal,
+    outcome: 'met' | 'missed'
+  ): Promise<Goal> => {
+    const advancedGoal = advanceRecurringGoal(goal, outcome);
+    await goalStorage.updateGoal(goal.id, {
+      deadlineDate: advancedGoal.deadlineDate,
+      deadlineAt: advancedGoal.deadlineAt,
+      occurrences: advancedGoal.occurrences,
+    });
+
+    try {
+      const notificationIds = await NotificationManager.rescheduleGoalNotifications(advancedGoal);
+      await goalStorage.updateGoal(goal.id, { notificationIds });
+      return { ...advancedGoal, notificationIds };
+    } catch (notificationError) {
+      console.error('Error rescheduling notifications:', notificationError);
+      return advancedGoal;
+    }
+  }, [goalStorage]);
+
+  /**
+   * Read every listed goal from storage
+   * Stats, tags, dependencies, sorting and filters all need the whole list, only rendering is paged
+   * Rolls recurring goals whose deadline passed while the app was closed
+   * @returns Promise<Goal[]> - Goals that are not archived or trashed
+   */
+  const readListedGoals = useCallback(async (): Promise<Goal[]> => {
+    const storedGoals = await goalStorage.getAllGoals();
+    return Promise.all(
+      storedGoals.filter(goalActions.isListed).map(goal =>
+        goal.recurrence && goal.status === 'active' && CountdownUtils.isExpired(goal.deadlineAt)
+          ? advanceOccurrence(goal, 'missed')
+          : goal
+      )
+    );
+  }, [advanceOccurrence, goalStorage, goalActions]);
+
+  /**
+   * Load all listed goals
+   * Purges old trash on the first load after launch
    */
   const loadGoals = useCallback(async () => {
     try {
-      const loadedGoals = await GoalStorage.getAllGoals();
-      setGoals(loadedGoals);
+      const settings = await settingsStorage.getSettings();
+      if (!hasPurgedTrashRef.current) {
+        hasPurgedTrashRef.current = true;
+        await goalStorage.purgeExpiredTrash(settings.trashRetentionDays);
+      }
+      setTags(await tagStorage.getAllTags());
+      setSmartLists(await smartListStorage.getAllSmartLists());
+      setWorkSchedule(settings.workSchedule);
+      setHolidays((await holidayStorage.getAllHolidays()).map(holiday => holiday.date));
+
+      setGoals(await readListedGoals());
     } catch (error) {
       console.error('Error loading goals:', error);
       Alert.alert(
@@ -47,31 +176,82 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
       setIsLoading(false);
       setIsRefreshing(false);
     }
-  }, []);
+  }, [readListedGoals, goalStorage, settingsStorage, tagStorage, smartListStorage, holidayStorage]);
+
+  /**
+   * Load goals whenever the screen gains focus
+   * Picks up goals created or edited on other screens
+   */
+  useFocusEffect(
+    useCallback(() => {
+      loadGoals();
+    }, [loadGoals])
+  );
 
   /**
-   * Load goals on component mount
+   * Switch the list to a view's sort and filters
    */
+  const applyView = (view: GoalListView) => {
+    setSortBy(view.sortBy);
+    setFilterBy(view.filterBy);
+    setSelectedTags(view.tags);
+    setDeadlineWindow(view.deadlineWindow);
+  };
+
+  // Restore the view used last time the app was open
   useEffect(() => {
-    loadGoals();
-  }, [loadGoals]);
+    settingsStorage.getSettings().then(({ lastListView }) => {
+      applyView({ ...DEFAULT_LIST_VIEW, ...lastListView });
+      setIsViewLoaded(true);
+    });
+  }, [settingsStorage]);
+
+  // Remember the view whenever it changes, once the stored one has been applied
+  useEffect(() => {
+    if (isViewLoaded) {
+      settingsStorage.updateSettings({
+        lastListView: { sortBy, filterBy, tags: selectedTags, deadlineWindow },
+      });
+    }
+  }, [settingsStorage, isViewLoaded, sortBy, filterBy, selectedTags, deadlineWindow]);
+
+  // Start from the first page again whenever the sort, filters or search change
+  useEffect(() => {
+    setVisibleCount(PAGE_SIZE);
+  }, [sortBy, filterBy, selectedTags, deadlineWindow, searchQuery]);
+
+  /**
+   * Handle restoring a goal that was just trashed or archived (snackbar undo)
+   */
+  const handleUndoRemoval = async (goal: Goal) => {
+    const success = await goalActions.restore(goal);
+    if (success) {
+      loadGoals();
+    } else {
+      Alert.alert(
+        'Error',
+        'Failed to restore goal. Please try again.',
+        [{ text: 'OK' }]
+      );
+    }
+  };
 
   /**
    * Handle goal deletion
+   * Moves the goal to the trash and offers an undo
    */
   const handleDeleteGoal = async (goalId: string) => {
     try {
-      // Find the goal to get notification IDs
       const goalToDelete = goals.find(goal => goal.id === goalId);
-      
-      // Cancel notifications for this goal
-      if (goalToDelete?.notificationIds) {
-        await NotificationManager.cancelGoalNotifications(goalId);
-      }
+      if (!goalToDelete) return;
 
-      const success = await GoalStorage.deleteGoal(goalId);
+      const success = await goalActions.trash(goalToDelete);
       if (success) {
         setGoals(prevGoals => prevGoals.filter(goal => goal.id !== goalId));
+        setSnackbar({
+          message: `"${goalToDelete.title}" moved to Trash`,
+          onUndo: () => handleUndoRemoval(goalToDelete),
+        });
       } else {
         Alert.alert(
           'Error',
@@ -89,6 +269,193 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
     }
   };
 
+  /**
+   * Handle archiving a goal
+   */
+  const handleArchiveGoal = async (goal: Goal) => {
+    try {
+      const success = await goalActions.archive(goal);
+      if (success) {
+        setGoals(prevGoals => prevGoals.filter(g => g.id !== goal.id));
+        setSnackbar({
+          message: `"${goal.title}" archived`,
+          onUndo: () => handleUndoRemoval(goal),
+        });
+      } else {
+        Alert.alert(
+          'Error',
+          'Failed to archive goal. Please try again.',
+          [{ text: 'OK' }]
+        );
+      }
+    } catch (error) {
+      console.error('Error archiving goal:', error);
+      Alert.alert(
+        'Error',
+        'An unexpected error occurred. Please try again.',
+        [{ text: 'OK' }]
+      );
+    }
+  };
+
+  /**
+   * Handle a goal's status change (achieved, missed, abandoned or reopened)
+   * Closed goals have their reminders cancelled, reopened goals get them back
+   */
+  const handleStatusChange = async (goal: Goal, status: GoalStatus) => {
+    try {
+      const changes: Partial<Goal> = {
+        status,
+        statusChangedAt: new Date().toISOString(),
+      };
+
+      if (status === 'active') {
+        changes.notificationIds = await NotificationManager.rescheduleGoalNotifications({ ...goal, ...changes });
+      } else {
+        await NotificationManager.cancelGoalNotifications(goal.id);
+        changes.notificationIds = [];
+      }
+
+      const success = await goalStorage.updateGoal(goal.id, changes);
+      if (success) {
+        setGoals(prevGoals => prevGoals.map(g => (g.id === goal.id ? { ...g, ...changes } : g)));
+      } else {
+        Alert.alert(
+          'Error',
+          'Failed to update goal. Please try again.',
+          [{ text: 'OK' }]
+        );
+      }
+    } catch (error) {
+      console.error('Error changing goal status:', error);
+      Alert.alert(
+        'Error',
+        'An unexpected error occurred. Please try again.',
+        [{ text: 'OK' }]
+      );
+    }
+  };
+
+  /**
+   * Handle a goal's countdown reaching zero
+   * Recurring goals record the occurrence as missed and roll to the next one,
+   * one-off goals switch to their expired state, where the card asks for the outcome
+   */
+  const handleGoalExpired = async (goal: Goal) => {
+    if (!goal.recurrence) {
+      // Re-render so the item switches to its expired state
+      setGoals(prevGoals => [...prevGoals]);
+      return;
+    }
+
+    try {
+      const advancedGoal = await advanceOccurrence(goal, 'missed');
+      setGoals(prevGoals => prevGoals.map(g => (g.id === goal.id ? advancedGoal : g)));
+    } catch (error) {
+      console.error('Error rolling recurring goal:', error);
+    }
+  };
+
+  /**
+   * Handle marking the current occurrence of a recurring goal as met
+   */
+  const handleCompleteOccurrence = async (goal: Goal) => {
+    try {
+      const advancedGoal = await advanceOccurrence(goal, 'met');
+      setGoals(prevGoals => prevGoals.map(g => (g.id === goal.id ? advancedGoal : g)));
+    } catch (error) {
+      console.error('Error completing occurrence:', error);
+      Alert.alert(
+        'Error',
+        'An unexpected error occurred. Please try again.',
+        [{ text: 'OK' }]
+      );
+    }
+  };
+
+  /**
+   * Handle toggling a milestone's done flag from the goal list
+   */
+  const handleToggleMilestone = async (goal: Goal, milestoneId: string) => {
+    const milestones = (goal.milestones ?? []).map(milestone =>
+      milestone.id === milestoneId ? { ...milestone, done: !milestone.done } : milestone
+    );
+
+    const success = await goalStorage.updateGoal(goal.id, { milestones });
+    if (success) {
+      setGoals(prevGoals => prevGoals.map(g => (g.id === goal.id ? { ...g, milestones } : g)));
+    } else {
+      Alert.alert(
+        'Error',
+        'Failed to update milestone. Please try again.',
+        [{ text: 'OK' }]
+      );
+    }
+  };
+
+  /**
+   * Handle an amount logged against a quantitative goal
+   * Offers to mark the goal achieved once the target is reached
+   */
+  const handleLogProgress = async (value: string) => {
+    const goal = progressGoal;
+    setProgressGoal(null);
+    if (!goal) return;
+
+    const amount = Number(value);
+    if (isNaN(amount) || amount === 0) {
+      Alert.alert(
+        'Validation Error',
+        'Enter a number other than zero.',
+        [{ text: 'OK' }]
+      );
+      return;
+    }
+
+    const progressLog = addProgressEntry(goal, amount);
+    const success = await goalStorage.updateGoal(goal.id, { progressLog });
+    if (!success) {
+      Alert.alert(
+        'Error',
+        'Failed to log progress. Please try again.',
+        [{ text: 'OK' }]
+      );
+      return;
+    }
+
+    const updatedGoal = { ...goal, progressLog };
+    setGoals(prevGoals => prevGoals.map(g => (g.id === goal.id ? updatedGoal : g)));
+
+    const wasReached = getProgressTotal(goal) >= (goal.targetValue ?? 0);
+    if (!wasReached && getProgressTotal(updatedGoal) >= (goal.targetValue ?? 0)) {
+      Alert.alert(
+        'Target Reached',
+        `You reached ${formatQuantity(goal.targetValue ?? 0, goal.unit)} for "${goal.title}". Mark it achieved?`,
+        [
+          { text: 'Not Yet', style: 'cancel' },
+          { text: 'Mark Achieved', onPress: () => handleStatusChange(updatedGoal, 'achieved') },
+        ]
+      );
+    }
+  };
+
+  /**
+   * Handle resetting a count-up tracker, keeping the run that just ended as a streak
+   */
+  const handleResetStreak = async (goal: Goal) => {
+    const changes = resetStreak(goal);
+    const success = await goalStorage.updateGoal(goal.id, changes);
+    if (success) {
+      setGoals(prevGoals => prevGoals.map(g => (g.id === goal.id ? { ...g, ...changes } : g)));
+    } else {
+      Alert.alert(
+        'Error',
+        'Failed to reset the streak. Please try again.',
+        [{ text: 'OK' }]
+      );
+    }
+  };
+
   /**
    * Handle goal creation (navigate to create screen)
    */
@@ -96,6 +463,250 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
     navigation.navigate('CreateGoal');
   };
 
+  /**
+   * Handle goal edit (navigate to edit screen)
+   */
+  const handleEditGoal = (goal: Goal) => {
+    navigation.navigate('EditGoal', { goalId: goal.id });
+  };
+
+  /**
+   * Handle opening a goal's details and history
+   */
+  const handleOpenGoal = (goal: Goal) => {
+    navigation.navigate('GoalDetail', { goalId: goal.id });
+  };
+
+  /**
+   * Handle sharing a single goal as an .ics calendar entry
+   */
+  const handleExportCalendar = (goal: Goal) => {
+    const shareAs = async (component: CalendarComponent) => {
+      try {
+        await shareTextFile(
+          getCalendarFileName([goal]),
+          exportCalendar([goal], component),
+          CALENDAR_FILE_TYPE,
+          'Add to calendar'
+        );
+      } catch (error) {
+        console.error('Error exporting calendar:', error);
+        Alert.alert('Error', 'Failed to export goal. Please try again.', [{ text: 'OK' }]);
+      }
+    };
+
+    Alert.alert(
+      'Add to Calendar',
+      `Export "${goal.title}" as a calendar event or a task?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Task', onPress: () => shareAs('VTODO') },
+        { text: 'Event', onPress: () => shareAs('VEVENT') },
+      ]
+    );
+  };
+
+  /**
+   * Handle duplicating a goal, with the deadline shifted by the days since it was created
+   * Offers an undo that deletes the copy
+   */
+  const handleDuplicateGoal = async (goal: Goal) => {
+    try {
+      const copy = await goalActions.duplicate(goal);
+      if (copy) {
+        loadGoals();
+        setSnackbar({
+          message: `"${goal.title}" duplicated`,
+          onUndo: async () => {
+            await goalActions.deleteForever(copy);
+            loadGoals();
+          },
+        });
+      } else {
+        Alert.alert(
+          'Error',
+          'Failed to duplicate goal. Please try again.',
+          [{ text: 'OK' }]
+        );
+      }
+    } catch (error) {
+      console.error('Error duplicating goal:', error);
+      Alert.alert(
+        'Error',
+        'An unexpected error occurred. Please try again.',
+        [{ text: 'OK' }]
+      );
+    }
+  };
+
+  /**
+   * Start selecting goals, beginning with the long-pressed one
+   */
+  const handleStartSelection = (goal: Goal) => {
+    setIsSelecting(true);
+    setSelectedIds([goal.id]);
+  };
+
+  /**
+   * Add or remove a goal from the selection
+   */
+  const handleToggleSelection = (goal: Goal) => {
+    setSelectedIds(prevIds =>
+      prevIds.includes(goal.id)
+        ? prevIds.filter(id => id !== goal.id)
+        : [...prevIds, goal.id]
+    );
+  };
+
+  /**
+   * Select every listed goal whose deadline has passed
+   */
+  const handleSelectExpired = () => {
+    const expiredIds = processedGoals
+      .filter(goal => !isCountUp(goal) && CountdownUtils.isExpired(goal.deadlineAt))
+      .map(goal => goal.id);
+    setSelectedIds(expiredIds);
+  };
+
+  /**
+   * Leave selection mode
+   */
+  const handleCancelSelection = () => {
+    setIsSelecting(false);
+    setSelectedIds([]);
+    setBulkPrompt(null);
+  };
+
+  /**
+   * Apply a bulk action to the whole selection in one write
+   * Reminders are cancelled or rescheduled for every selected goal, and a single undo
+   * puts all of them back
+   * Goals the action doesn't apply to, such as count-up trackers when extending, are skipped
+   */
+  const runBulkAction = async (action: BulkAction, value?: string | number) => {
+    const selection = goals.filter(goal => selectedIds.includes(goal.id));
+    const selectedGoals = selection.filter(goal => canApplyBulkAction(goal, action));
+    const skippedCount = selection.length - selectedGoals.length;
+    const skippedNote = skippedCount > 0
+      ? `, ${skippedCount} count-up tracker${skippedCount === 1 ? '' : 's'} skipped`
+      : '';
+    const count = selectedGoals.length;
+    const label = `${count} goal${count === 1 ? '' : 's'}`;
+    const messages: Record<BulkAction, string> = {
+      trash: `${label} moved to Trash`,
+      archive: `${label} archived`,
+      achieve: `${label} marked achieved`,
+      tag: `Tagged ${label} with "${value}"`,
+      extend: `Extended ${label} by ${value} day${value === 1 ? '' : 's'}`,
+    };
+
+    if (count === 0 && skippedCount > 0) {
+      handleCancelSelection();
+      Alert.alert(
+        'Nothing to Change',
+        'Count-up trackers have no deadline to extend.',
+        [{ text: 'OK' }]
+      );
+      return;
+    }
+
+    try {
+      if (action === 'tag') {
+        await tagStorage.ensureTags([String(value)]);
+      }
+
+      const fieldsBefore = await goalActions.updateMany(
+        selectedGoals,
+        goal => applyBulkAction(goal, action, value)
+      );
+      handleCancelSelection();
+
+      if (fieldsBefore) {
+        loadGoals();
+        setSnackbar({
+          message: `${messages[action]}${skippedNote}`,
+          onUndo: async () => {
+            const success = await goalActions.restoreMany(fieldsBefore);
+            if (!success) {
+              Alert.alert(
+                'Error',
+                'Failed to undo the change. Please try again.',
+                [{ text: 'OK' }]
+              );
+            }
+            loadGoals();
+          },
+        });
+      } else {
+        Alert.alert(
+          'Error',
+          'Failed to update the selected goals. Please try again.',
+          [{ text: 'OK' }]
+        );
+      }
+    } catch (error) {
+      console.error('Error applying bulk action:', error);
+      Alert.alert(
+        'Error',
+        'An unexpected error occurred. Please try again.',
+        [{ text: 'OK' }]
+      );
+    }
+  };
+
+  /**
+   * Handle a button in the bulk action bar
+   * Tagging and extending ask for a value, the other actions ask for confirmation once
+   */
+  const handleBulkAction = (action: BulkAction) => {
+    if (action === 'tag' || action === 'extend') {
+      setBulkPrompt(action);
+      return;
+    }
+
+    const count = selectedIds.length;
+    const label = `${count} goal${count === 1 ? '' : 's'}`;
+    const confirmations = {
+      trash: { title: 'Move to Trash', message: `Move ${label} to the trash?`, button: 'Move to Trash' },
+      archive: { title: 'Archive Goals', message: `Archive ${label}?`, button: 'Archive' },
+      achieve: { title: 'Mark Achieved', message: `Mark ${label} as achieved?`, button: 'Mark Achieved' },
+    };
+    const confirmation = confirmations[action];
+
+    Alert.alert(
+      confirmation.title,
+      confirmation.message,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: confirmation.button,
+          style: action === 'trash' ? 'destructive' : 'default',
+          onPress: () => runBulkAction(action),
+        },
+      ]
+    );
+  };
+
+  /**
+   * Handle the value entered for a bulk tag or extend
+   */
+  const handleBulkPromptConfirm = (value: string) => {
+    if (bulkPrompt === 'extend') {
+      const days = parseInt(value, 10);
+      if (isNaN(days) || days < 1) {
+        Alert.alert(
+          'Validation Error',
+          'Enter a number of days greater than zero.',
+          [{ text: 'OK' }]
+        );
+        return;
+      }
+      runBulkAction('extend', days);
+    } else if (bulkPrompt === 'tag') {
+      runBulkAction('tag', value);
+    }
+  };
+
   /**
    * Handle refresh
    */
@@ -106,18 +717,26 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
 
   /**
    * Sort goals based on selected criteria
+   * "Most overdue" lists overdue goals furthest past their deadline first, then the rest by deadline
    */
   const sortGoals = (goalsToSort: Goal[]): Goal[] => {
+    const now = new Date();
     return [...goalsToSort].sort((a, b) => {
       switch (sortBy) {
         case 'deadline':
-          const deadlineA = new Date(`${a.deadlineDate}T${a.deadlineTime}`).getTime();
-          const deadlineB = new Date(`${b.deadlineDate}T${b.deadlineTime}`).getTime();
+          const deadlineA = new Date(a.deadlineAt).getTime();
+          const deadlineB = new Date(b.deadlineAt).getTime();
           return deadlineA - deadlineB;
         case 'created':
           return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
         case 'title':
           return a.title.localeCompare(b.title);
+        case 'overdue': {
+          const overdueDifference = getTimeOverdue(b, now) - getTimeOverdue(a, now);
+          return overdueDifference !== 0
+            ? overdueDifference
+            : new Date(a.deadlineAt).getTime() - new Date(b.deadlineAt).getTime();
+        }
         default:
           return 0;
       }
@@ -126,23 +745,109 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
 
   /**
    * Filter goals based on selected criteria
+   * Status filter, tag filter, deadline window and search combine; a goal matches the tag filter
+   * when it has any of the selected tags
+   * "Ready" keeps active goals whose dependencies are all finished
    */
   const filterGoals = (goalsToFilter: Goal[]): Goal[] => {
     return goalsToFilter.filter(goal => {
-      const isExpired = CountdownUtils.isExpired(goal.deadlineDate, goal.deadlineTime);
-      
-      switch (filterBy) {
-        case 'active':
-          return !isExpired;
-        case 'expired':
-          return isExpired;
-        case 'all':
-        default:
-          return true;
+      if (filterBy === 'ready') {
+        if (!isReadyToWorkOn(goal, goals)) {
+          return false;
+        }
+      } else if (filterBy !== 'all' && getGoalDisplayState(goal) !== filterBy) {
+        return false;
       }
+
+      if (!matchesDeadlineWindow(goal, deadlineWindow)) {
+        return false;
+      }
+
+      if (!matchesSearch(goal, searchTerms)) {
+        return false;
+      }
+
+      // Ignore selected tags that no listed goal uses any more
+      const activeTagFilter = selectedTags.filter(name => usedTags.some(tag => tag.name === name));
+      if (activeTagFilter.length > 0) {
+        const goalTags = (goal.tags ?? []).map(tag => tag.toLowerCase());
+        return activeTagFilter.some(tag => goalTags.includes(tag.toLowerCase()));
+      }
+
+      return true;
     });
   };
 
+  /**
+   * Toggle a tag in the tag filter
+   */
+  const handleToggleTagFilter = (name: string) => {
+    setSelectedTags(prevTags =>
+      prevTags.includes(name)
+        ? prevTags.filter(tag => tag !== name)
+        : [...prevTags, name]
+    );
+  };
+
+  const currentView: GoalListView = { sortBy, filterBy, tags: selectedTags, deadlineWindow };
+  // The saved list showing right now, if the current view matches one
+  const activeSmartList = smartLists.find(list => isSameListView(list, currentView)) ?? null;
+
+  /**
+   * Handle saving the current sort and filters as a named smart list
+   */
+  const handleSaveSmartList = async (name: string) => {
+    setIsSavingList(false);
+    const list: SmartList = {
+      ...currentView,
+      id: smartListStorage.generateId(),
+      name,
+      createdAt: new Date().toISOString(),
+    };
+
+    const success = await smartListStorage.saveSmartList(list);
+    if (success) {
+      setSmartLists(prevLists => [...prevLists, list]);
+    } else {
+      Alert.alert(
+        'Error',
+        'Failed to save smart list. Please try again.',
+        [{ text: 'OK' }]
+      );
+    }
+  };
+
+  /**
+   * Handle deleting a smart list (long-press on its tab)
+   */
+  const handleDeleteSmartList = (list: SmartList) => {
+    Alert.alert(
+      'Delete Smart List',
+      `Delete "${list.name}"? Your goals are not affected.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const success = await smartListStorage.deleteSmartList(list.id);
+            if (success) {
+              setSmartLists(prevLists => prevLists.filter(l => l.id !== list.id));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const searchTerms = getSearchTerms(searchQuery);
+
+  // Only offer tags that are used by at least one listed goal
+  const tagColors = tagStorage.toColorMap(tags);
+  const usedTags = tags.filter(tag =>
+    goals.some(goal => (goal.tags ?? []).some(name => name.toLowerCase() === tag.name.toLowerCase()))
+  );
+
   /**
    * Get processed goals (sorted and filtered)
    */
@@ -151,17 +856,32 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
     return sortGoals(filtered);
   };
 
+  const processedGoals = getProcessedGoals();
+
+  /**
+   * Render the next page of goals when the list is scrolled near its end
+   */
+  const handleShowMoreGoals = () => {
+    if (visibleCount < processedGoals.length) {
+      setVisibleCount(prevCount => prevCount + PAGE_SIZE);
+    }
+  };
+
   /**
    * Get statistics for display
+   * Counts recorded outcomes rather than whether the deadline has passed
+   * Slipped counts goals whose deadline was pushed back at least once
    */
   const getStats = () => {
-    const activeGoals = goals.filter(goal => !CountdownUtils.isExpired(goal.deadlineDate, goal.deadlineTime));
-    const expiredGoals = goals.filter(goal => CountdownUtils.isExpired(goal.deadlineDate, goal.deadlineTime));
-    
+    const countByState = (state: GoalDisplayState) =>
+      goals.filter(goal => getGoalDisplayState(goal) === state).length;
+
     return {
       total: goals.length,
-      active: activeGoals.length,
-      expired: expiredGoals.length,
+      active: countByState('active'),
+      achieved: countByState('achieved'),
+      missed: countByState('missed'),
+      slipped: goals.filter(goal => (goal.deadlineExtensions ?? []).length > 0).length,
     };
   };
 
@@ -171,7 +891,26 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
   const renderGoalItem = ({ item }: { item: Goal }) => (
     <GoalItem
       goal={item}
+      tagColors={tagColors}
+      searchTerms={searchTerms}
+      blockedBy={getOpenDependencies(item, goals)}
+      workSchedule={workSchedule}
+      holidays={holidays}
+      onPress={isSelecting ? handleToggleSelection : handleOpenGoal}
+      onLongPress={isSelecting ? handleToggleSelection : handleStartSelection}
+      isSelecting={isSelecting}
+      isSelected={selectedIds.includes(item.id)}
       onDelete={handleDeleteGoal}
+      onArchive={handleArchiveGoal}
+      onEdit={handleEditGoal}
+      onExportCalendar={handleExportCalendar}
+      onDuplicate={handleDuplicateGoal}
+      onLogProgress={setProgressGoal}
+      onResetStreak={handleResetStreak}
+      onExpired={handleGoalExpired}
+      onCompleteOccurrence={handleCompleteOccurrence}
+      onToggleMilestone={handleToggleMilestone}
+      onStatusChange={handleStatusChange}
     />
   );
 
@@ -182,14 +921,15 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
     <View style={styles.emptyContainer}>
       <Text style={styles.emptyTitle}>No Goals Yet</Text>
       <Text style={styles.emptySubtitle}>
-        {filterBy === 'all' 
-          ? 'Create your first goal to get started!'
-          : filterBy === 'active'
-          ? 'No active goals at the moment.'
-          : 'No expired goals yet.'
-        }
+        {searchTerms.length > 0
+          ? `No goals match "${searchQuery.trim()}".`
+          : selectedTags.length > 0
+            ? 'No goals match the selected tags.'
+            : deadlineWindow !== 'any'
+              ? 'No goals are due in this period.'
+              : EMPTY_MESSAGES[filterBy]}
       </Text>
-      {filterBy === 'all' && (
+      {isSameListView(currentView, DEFAULT_LIST_VIEW) && searchTerms.length === 0 && (
         <TouchableOpacity
           style={styles.createFirstButton}
           onPress={handleCreateGoal}
@@ -200,6 +940,52 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
     </View>
   );
 
+  /**
+   * Render the smart list tabs above the goal list
+   * "All Goals" resets the view, long-pressing a saved list deletes it
+   */
+  const renderSmartLists = () => (
+    <View style={styles.smartListBar}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.smartListTabs}>
+        <TouchableOpacity
+          style={[styles.smartListTab, isSameListView(currentView, DEFAULT_LIST_VIEW) && styles.smartListTabActive]}
+          onPress={() => applyView(DEFAULT_LIST_VIEW)}
+        >
+          <Text
+            style={[
+              styles.smartListTabText,
+              isSameListView(currentView, DEFAULT_LIST_VIEW) && styles.smartListTabTextActive,
+            ]}
+          >
+            All Goals
+          </Text>
+        </TouchableOpacity>
+        {smartLists.map(list => (
+          <TouchableOpacity
+            key={list.id}
+            style={[styles.smartListTab, activeSmartList?.id === list.id && styles.smartListTabActive]}
+            onPress={() => applyView(list)}
+            onLongPress={() => handleDeleteSmartList(list)}
+          >
+            <Text
+              style={[
+                styles.smartListTabText,
+                activeSmartList?.id === list.id && styles.smartListTabTextActive,
+              ]}
+            >
+              {list.name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+        {!activeSmartList && !isSameListView(currentView, DEFAULT_LIST_VIEW) && (
+          <TouchableOpacity style={styles.smartListTab} onPress={() => setIsSavingList(true)}>
+            <Text style={styles.smartListSaveText}>+ Save View</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </View>
+  );
+
   /**
    * Render header with stats and controls
    */
@@ -208,6 +994,24 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
     
     return (
       <View style={styles.header}>
+        {/* Search */}
+        <View style={styles.searchContainer}>
+          <TextInput
+            style={styles.searchInput}
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            placeholder="Search titles, descriptions and tags"
+            placeholderTextColor="#999"
+            autoCorrect={false}
+            returnKeyType="search"
+          />
+          {searchQuery.length > 0 && (
+            <TouchableOpacity style={styles.searchClearButton} onPress={() => setSearchQuery('')}>
+              <Text style={styles.searchClearText}>✕</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
         <View style={styles.statsContainer}>
           <View style={styles.statItem}>
             <Text style={styles.statNumber}>{stats.total}</Text>
@@ -219,11 +1023,23 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
             </Text>
             <Text style={styles.statLabel}>Active</Text>
           </View>
+          <View style={styles.statItem}>
+            <Text style={[styles.statNumber, styles.achievedStat]}>
+              {stats.achieved}
+            </Text>
+            <Text style={styles.statLabel}>Achieved</Text>
+          </View>
           <View style={styles.statItem}>
             <Text style={[styles.statNumber, styles.expiredStat]}>
-              {stats.expired}
+              {stats.missed}
             </Text>
-            <Text style={styles.statLabel}>Expired</Text>
+            <Text style={styles.statLabel}>Missed</Text>
+          </View>
+          <View style={styles.statItem}>
+            <Text style={[styles.statNumber, styles.slippedStat]}>
+              {stats.slipped}
+            </Text>
+            <Text style={styles.statLabel}>Slipped</Text>
           </View>
         </View>
 
@@ -232,22 +1048,22 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
           <View style={styles.controlGroup}>
             <Text style={styles.controlLabel}>Sort by:</Text>
             <View style={styles.controlButtons}>
-              {(['deadline', 'created', 'title'] as const).map((option) => (
+              {SORT_OPTIONS.map(({ value, label }) => (
                 <TouchableOpacity
-                  key={option}
+                  key={value}
                   style={[
                     styles.controlButton,
-                    sortBy === option && styles.controlButtonActive,
+                    sortBy === value && styles.controlButtonActive,
                   ]}
-                  onPress={() => setSortBy(option)}
+                  onPress={() => setSortBy(value)}
                 >
                   <Text
                     style={[
                       styles.controlButtonText,
-                      sortBy === option && styles.controlButtonTextActive,
+                      sortBy === value && styles.controlButtonTextActive,
                     ]}
                   >
-                    {option.charAt(0).toUpperCase() + option.slice(1)}
+                    {label}
                   </Text>
                 </TouchableOpacity>
               ))}
@@ -257,7 +1073,7 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
           <View style={styles.controlGroup}>
             <Text style={styles.controlLabel}>Filter:</Text>
             <View style={styles.controlButtons}>
-              {(['all', 'active', 'expired'] as const).map((option) => (
+              {FILTER_OPTIONS.map((option) => (
                 <TouchableOpacity
                   key={option}
                   style={[
@@ -278,6 +1094,48 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
               ))}
             </View>
           </View>
+
+          <View style={styles.controlGroup}>
+            <Text style={styles.controlLabel}>Due:</Text>
+            <View style={styles.controlButtons}>
+              {DEADLINE_WINDOW_OPTIONS.map(({ value, label }) => (
+                <TouchableOpacity
+                  key={value}
+                  style={[
+                    styles.controlButton,
+                    deadlineWindow === value && styles.controlButtonActive,
+                  ]}
+                  onPress={() => setDeadlineWindow(value)}
+                >
+                  <Text
+                    style={[
+                      styles.controlButtonText,
+                      deadlineWindow === value && styles.controlButtonTextActive,
+                    ]}
+                  >
+                    {label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          {usedTags.length > 0 && (
+            <View style={styles.controlGroup}>
+              <Text style={styles.controlLabel}>Tags:</Text>
+              <View style={styles.controlButtons}>
+                {usedTags.map(tag => (
+                  <TagChip
+                    key={tag.name}
+                    name={tag.name}
+                    color={tag.color}
+                    selected={selectedTags.includes(tag.name)}
+                    onPress={() => handleToggleTagFilter(tag.name)}
+                  />
+                ))}
+              </View>
+            </View>
+          )}
         </View>
       </View>
     );
@@ -294,11 +1152,27 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
   return (
     <View style={styles.container}>
       {renderHeader()}
-      
+      {renderSmartLists()}
+
+      {/* Selection Controls */}
+      {isSelecting && (
+        <View style={styles.selectionBar}>
+          <Text style={styles.selectionCount}>{selectedIds.length} selected</Text>
+          <TouchableOpacity style={styles.selectionButton} onPress={handleSelectExpired}>
+            <Text style={styles.selectionButtonText}>Select All Expired</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.selectionButton} onPress={handleCancelSelection}>
+            <Text style={styles.selectionButtonText}>Done</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       <FlatList
-        data={getProcessedGoals()}
+        data={processedGoals.slice(0, visibleCount)}
         renderItem={renderGoalItem}
         keyExtractor={(item) => item.id}
+        onEndReached={handleShowMoreGoals}
+        onEndReachedThreshold={0.5}
         contentContainerStyle={styles.listContainer}
         showsVerticalScrollIndicator={false}
         refreshControl={
@@ -312,13 +1186,69 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
         ListEmptyComponent={renderEmptyState}
       />
 
-      {/* Floating Action Button */}
-      <TouchableOpacity
-        style={styles.fab}
-        onPress={handleCreateGoal}
-      >
-        <Text style={styles.fabText}>+</Text>
-      </TouchableOpacity>
+      {isSelecting ? (
+        <BulkActionBar selectedCount={selectedIds.length} onAction={handleBulkAction} />
+      ) : (
+        /* Floating Action Button */
+        <TouchableOpacity
+          style={styles.fab}
+          onPress={handleCreateGoal}
+        >
+          <Text style={styles.fabText}>+</Text>
+        </TouchableOpacity>
+      )}
+
+      {/* Progress Prompt */}
+      <PromptModal
+        visible={progressGoal !== null}
+        title="Log Progress"
+        message={progressGoal
+          ? `How much did you add to "${progressGoal.title}"? Use a negative number to correct.`
+          : undefined}
+        placeholder={progressGoal?.unit ? `Amount in ${progressGoal.unit}` : 'Amount'}
+        keyboardType="numeric"
+        confirmLabel="Log"
+        onConfirm={handleLogProgress}
+        onCancel={() => setProgressGoal(null)}
+      />
+
+      {/* Smart List Name Prompt */}
+      <PromptModal
+        visible={isSavingList}
+        title="Save Smart List"
+        message="Save the current sort and filters as a list you can switch to later."
+        placeholder="e.g. Due this week"
+        confirmLabel="Save"
+        onConfirm={handleSaveSmartList}
+        onCancel={() => setIsSavingList(false)}
+      />
+
+      {/* Bulk Tag / Extend Prompt */}
+      <PromptModal
+        visible={bulkPrompt !== null}
+        title={bulkPrompt === 'tag' ? 'Add Tag' : 'Extend Deadlines'}
+        message={bulkPrompt === 'tag'
+          ? `Add a tag to ${selectedIds.length} goal(s).`
+          : `Move the deadline of ${selectedIds.length} goal(s) later by this many days.`}
+        placeholder={bulkPrompt === 'tag' ? 'Tag name' : 'Days'}
+        keyboardType={bulkPrompt === 'extend' ? 'number-pad' : 'default'}
+        suggestions={bulkPrompt === 'tag'
+          ? tags.map(tag => tag.name)
+          : BULK_EXTEND_OPTIONS.map(String)}
+        confirmLabel={bulkPrompt === 'tag' ? 'Add Tag' : 'Extend'}
+        onConfirm={handleBulkPromptConfirm}
+        onCancel={() => setBulkPrompt(null)}
+      />
+
+      {/* Undo Snackbar */}
+      {snackbar && (
+        <Snackbar
+          message={snackbar.message}
+          actionLabel="Undo"
+          onAction={snackbar.onUndo}
+          onDismiss={() => setSnackbar(null)}
+        />
+      )}
     </View>
   );
 };
@@ -344,6 +1274,28 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: '#E9ECEF',
   },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F0F0F0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    marginBottom: 16,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#333',
+  },
+  searchClearButton: {
+    padding: 4,
+    marginLeft: 8,
+  },
+  searchClearText: {
+    fontSize: 14,
+    color: '#666',
+  },
   statsContainer: {
     flexDirection: 'row',
     justifyContent: 'space-around',
@@ -360,9 +1312,15 @@ const styles = StyleSheet.create({
   activeStat: {
     color: '#28A745',
   },
+  achievedStat: {
+    color: '#007AFF',
+  },
   expiredStat: {
     color: '#FF3B30',
   },
+  slippedStat: {
+    color: '#FF9500',
+  },
   statLabel: {
     fontSize: 12,
     color: '#666',
@@ -383,7 +1341,9 @@ const styles = StyleSheet.create({
     minWidth: 60,
   },
   controlButtons: {
+    flex: 1,
     flexDirection: 'row',
+    flexWrap: 'wrap',
     gap: 8,
   },
   controlButton: {
@@ -406,6 +1366,61 @@ const styles = StyleSheet.create({
   controlButtonTextActive: {
     color: 'white',
   },
+  smartListBar: {
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E9ECEF',
+  },
+  smartListTabs: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    gap: 8,
+  },
+  smartListTab: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  smartListTabActive: {
+    backgroundColor: '#E3F2FD',
+  },
+  smartListTabText: {
+    fontSize: 14,
+    color: '#666',
+    fontWeight: '500',
+  },
+  smartListTabTextActive: {
+    color: '#007AFF',
+    fontWeight: 'bold',
+  },
+  smartListSaveText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  selectionBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#E3F2FD',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    gap: 8,
+  },
+  selectionCount: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1976D2',
+  },
+  selectionButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  selectionButtonText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
   listContainer: {
     paddingBottom: 80, // Space for FAB
   },
@@ -0,0 +1,214 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { GoalTemplate } from '../storage/templates';
+import { describeRelativeDeadline } from '../utils/templates';
+import { formatReminderOffset } from '../utils/reminders';
+import { useStorage } from '../components/StorageProvider';
+
+interface TemplatesScreenProps {
+  navigation: any;
+}
+
+/**
+ * TemplatesScreen component lists saved goal templates
+ * Picking a template opens CreateGoalScreen pre-filled from it
+ * Templates are saved from the create goal form
+ */
+export const TemplatesScreen: React.FC<TemplatesScreenProps> = ({ navigation }) => {
+  const { templateStorage } = useStorage();
+  const [templates, setTemplates] = useState<GoalTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  // Reload on focus so templates saved from the create form show up
+  useFocusEffect(
+    useCallback(() => {
+      templateStorage.getAllTemplates().then(loadedTemplates => {
+        setTemplates(loadedTemplates);
+        setIsLoading(false);
+      });
+    }, [templateStorage])
+  );
+
+  /**
+   * Handle deleting a template
+   */
+  const handleDelete = (template: GoalTemplate) => {
+    Alert.alert(
+      'Delete Template',
+      `Delete the template "${template.name}"? Goals created from it are not affected.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const success = await templateStorage.deleteTemplate(template.id);
+            if (success) {
+              setTemplates(prevTemplates => prevTemplates.filter(t => t.id !== template.id));
+            } else {
+              Alert.alert(
+                'Error',
+                'Failed to delete template. Please try again.',
+                [{ text: 'OK' }]
+              );
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  /**
+   * Render a single template
+   */
+  const renderTemplate = ({ item }: { item: GoalTemplate }) => (
+    <View style={styles.templateRow}>
+      <View style={styles.templateInfo}>
+        <Text style={styles.templateName}>{item.name}</Text>
+        <Text style={styles.templateMeta}>Deadline: {describeRelativeDeadline(item)}</Text>
+        <Text style={styles.templateMeta}>
+          Reminders: {item.reminderOffsets.length > 0
+            ? item.reminderOffsets.map(formatReminderOffset).join(', ')
+            : 'None'}
+        </Text>
+        {item.tags.length > 0 && (
+          <Text style={styles.templateMeta}>Tags: {item.tags.join(', ')}</Text>
+        )}
+      </View>
+      <View style={styles.templateActions}>
+        <TouchableOpacity
+          style={styles.useButton}
+          onPress={() => navigation.navigate('CreateGoal', { templateId: item.id })}
+        >
+          <Text style={styles.useButtonText}>Use</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.deleteButton} onPress={() => handleDelete(item)}>
+          <Text style={styles.deleteButtonText}>Delete</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.loadingText}>Loading...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={templates}
+        renderItem={renderTemplate}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.listContainer}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyText}>No templates yet.</Text>
+            <Text style={styles.emptyHint}>
+              Fill in a new goal and tap "Save as Template" to reuse it later.
+            </Text>
+          </View>
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8F9FA',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F8F9FA',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  listContainer: {
+    paddingVertical: 8,
+  },
+  templateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginVertical: 6,
+    marginHorizontal: 16,
+    borderLeftWidth: 4,
+    borderLeftColor: '#007AFF',
+  },
+  templateInfo: {
+    flex: 1,
+  },
+  templateName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 4,
+  },
+  templateMeta: {
+    fontSize: 12,
+    color: '#666',
+  },
+  templateActions: {
+    marginLeft: 12,
+    gap: 8,
+  },
+  useButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    backgroundColor: '#007AFF',
+    alignItems: 'center',
+  },
+  useButtonText: {
+    fontSize: 12,
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  deleteButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#FF3B30',
+    alignItems: 'center',
+  },
+  deleteButtonText: {
+    fontSize: 12,
+    color: '#FF3B30',
+    fontWeight: 'bold',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    paddingHorizontal: 32,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  emptyHint: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,399 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { Goal } from '../storage/storage';
+import { CountdownUtils } from '../components/Countdown';
+import { useStorage } from '../components/StorageProvider';
+
+interface TrashScreenProps {
+  navigation: any;
+}
+
+type TrashTab = 'archive' | 'trash';
+
+// Retention periods offered for the trash, in days
+const RETENTION_OPTIONS = [7, 30, 90];
+
+/**
+ * TrashScreen component lists archived and trashed goals
+ * Goals can be restored to the main list or, from the trash, deleted for good
+ * Trashed goals are purged automatically after the configured retention period
+ */
+export const TrashScreen: React.FC<TrashScreenProps> = () => {
+  const { goalStorage, goalActions, settingsStorage } = useStorage();
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [tab, setTab] = useState<TrashTab>('trash');
+  const [retentionDays, setRetentionDays] = useState<number>(30);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  /**
+   * Load settings and goals, purging trash older than the retention period
+   */
+  const loadGoals = useCallback(async () => {
+    try {
+      const { trashRetentionDays } = await settingsStorage.getSettings();
+      setRetentionDays(trashRetentionDays);
+      await goalStorage.purgeExpiredTrash(trashRetentionDays);
+      setGoals(await goalStorage.getAllGoals());
+    } catch (error) {
+      console.error('Error loading trash:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [goalStorage, settingsStorage]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadGoals();
+    }, [loadGoals])
+  );
+
+  const archivedGoals = goals.filter(goal => goal.archivedAt && !goal.deletedAt);
+  const trashedGoals = goals.filter(goal => goal.deletedAt);
+  const visibleGoals = tab === 'archive' ? archivedGoals : trashedGoals;
+
+  /**
+   * Handle restoring a goal to the main list
+   */
+  const handleRestore = async (goal: Goal) => {
+    const success = await goalActions.restore(goal);
+    if (success) {
+      setGoals(prevGoals =>
+        prevGoals.map(g => (g.id === goal.id ? { ...g, archivedAt: undefined, deletedAt: undefined } : g))
+      );
+    } else {
+      Alert.alert(
+        'Error',
+        'Failed to restore goal. Please try again.',
+        [{ text: 'OK' }]
+      );
+    }
+  };
+
+  /**
+   * Handle permanently deleting a single goal from the trash
+   */
+  const handleDeleteForever = (goal: Goal) => {
+    Alert.alert(
+      'Delete Forever',
+      `"${goal.title}" will be permanently deleted. This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const success = await goalStorage.deleteGoal(goal.id);
+            if (success) {
+              setGoals(prevGoals => prevGoals.filter(g => g.id !== goal.id));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  /**
+   * Handle emptying the whole trash
+   */
+  const handleEmptyTrash = () => {
+    Alert.alert(
+      'Empty Trash',
+      `Permanently delete ${trashedGoals.length} goal(s)? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Empty Trash',
+          style: 'destructive',
+          onPress: async () => {
+            await goalStorage.deleteGoals(trashedGoals.map(goal => goal.id));
+            loadGoals();
+          },
+        },
+      ]
+    );
+  };
+
+  /**
+   * Handle changing how long trashed goals are kept
+   */
+  const handleRetentionChange = async (days: number) => {
+    setRetentionDays(days);
+    await settingsStorage.updateSettings({ trashRetentionDays: days });
+    await goalStorage.purgeExpiredTrash(days);
+    loadGoals();
+  };
+
+  /**
+   * Days left before a trashed goal is purged
+   */
+  const getDaysUntilPurge = (goal: Goal): number => {
+    const deletedAt = new Date(goal.deletedAt as string).getTime();
+    const purgeAt = deletedAt + retentionDays * 24 * 60 * 60 * 1000;
+    return Math.max(0, Math.ceil((purgeAt - Date.now()) / (24 * 60 * 60 * 1000)));
+  };
+
+  /**
+   * Render a single archived or trashed goal
+   */
+  const renderGoal = ({ item }: { item: Goal }) => (
+    <View style={styles.goalRow}>
+      <View style={styles.goalInfo}>
+        <Text style={styles.goalTitle}>{item.title}</Text>
+        <Text style={styles.goalMeta}>
+          Deadline: {CountdownUtils.formatDeadline(item.deadlineAt, item.timeZone)}
+        </Text>
+        <Text style={styles.goalMeta}>
+          {tab === 'trash'
+            ? `Deleted ${new Date(item.deletedAt as string).toLocaleDateString()} · purged in ${getDaysUntilPurge(item)} day(s)`
+            : `Archived ${new Date(item.archivedAt as string).toLocaleDateString()}`}
+        </Text>
+      </View>
+      <View style={styles.goalActions}>
+        <TouchableOpacity style={styles.restoreButton} onPress={() => handleRestore(item)}>
+          <Text style={styles.restoreButtonText}>Restore</Text>
+        </TouchableOpacity>
+        {tab === 'trash' && (
+          <TouchableOpacity style={styles.deleteButton} onPress={() => handleDeleteForever(item)}>
+            <Text style={styles.deleteButtonText}>Delete</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.loadingText}>Loading...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        {/* Tabs */}
+        <View style={styles.tabs}>
+          {(['trash', 'archive'] as const).map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.tab, tab === option && styles.tabActive]}
+              onPress={() => setTab(option)}
+            >
+              <Text style={[styles.tabText, tab === option && styles.tabTextActive]}>
+                {option === 'trash'
+                  ? `Trash (${trashedGoals.length})`
+                  : `Archive (${archivedGoals.length})`}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {/* Retention Setting */}
+        {tab === 'trash' && (
+          <View style={styles.retentionContainer}>
+            <Text style={styles.retentionLabel}>Keep deleted goals for:</Text>
+            <View style={styles.retentionButtons}>
+              {RETENTION_OPTIONS.map(days => (
+                <TouchableOpacity
+                  key={days}
+                  style={[styles.controlButton, retentionDays === days && styles.controlButtonActive]}
+                  onPress={() => handleRetentionChange(days)}
+                >
+                  <Text
+                    style={[
+                      styles.controlButtonText,
+                      retentionDays === days && styles.controlButtonTextActive,
+                    ]}
+                  >
+                    {days} days
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {trashedGoals.length > 0 && (
+              <TouchableOpacity style={styles.emptyTrashButton} onPress={handleEmptyTrash}>
+                <Text style={styles.emptyTrashText}>Empty Trash</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </View>
+
+      <FlatList
+        data={visibleGoals}
+        renderItem={renderGoal}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.listContainer}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyText}>
+              {tab === 'trash' ? 'The trash is empty.' : 'No archived goals.'}
+            </Text>
+          </View>
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8F9FA',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F8F9FA',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  header: {
+    backgroundColor: 'white',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E9ECEF',
+  },
+  tabs: {
+    flexDirection: 'row',
+    backgroundColor: '#F0F0F0',
+    borderRadius: 8,
+    padding: 4,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  tabActive: {
+    backgroundColor: 'white',
+  },
+  tabText: {
+    fontSize: 14,
+    color: '#666',
+    fontWeight: '500',
+  },
+  tabTextActive: {
+    color: '#007AFF',
+    fontWeight: 'bold',
+  },
+  retentionContainer: {
+    marginTop: 16,
+  },
+  retentionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  retentionButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  controlButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#F0F0F0',
+    borderWidth: 1,
+    borderColor: '#DDD',
+  },
+  controlButtonActive: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  controlButtonText: {
+    fontSize: 12,
+    color: '#666',
+    fontWeight: '500',
+  },
+  controlButtonTextActive: {
+    color: 'white',
+  },
+  emptyTrashButton: {
+    marginTop: 12,
+    alignSelf: 'flex-start',
+  },
+  emptyTrashText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    fontWeight: '600',
+  },
+  listContainer: {
+    paddingVertical: 8,
+  },
+  goalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginVertical: 6,
+    marginHorizontal: 16,
+    borderLeftWidth: 4,
+    borderLeftColor: '#6C757D',
+  },
+  goalInfo: {
+    flex: 1,
+  },
+  goalTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 4,
+  },
+  goalMeta: {
+    fontSize: 12,
+    color: '#666',
+  },
+  goalActions: {
+    marginLeft: 12,
+    gap: 8,
+  },
+  restoreButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    backgroundColor: '#007AFF',
+    alignItems: 'center',
+  },
+  restoreButtonText: {
+    fontSize: 12,
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  deleteButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#FF3B30',
+    alignItems: 'center',
+  },
+  deleteButtonText: {
+    fontSize: 12,
+    color: '#FF3B30',
+    fontWeight: 'bold',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+  },
+});
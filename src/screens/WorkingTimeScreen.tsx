@@ -0,0 +1,388 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { DatePicker } from '../components/DatePicker';
+import { TimePicker } from '../components/TimePicker';
+import { DEFAULT_WORK_SCHEDULE, WorkSchedule } from '../storage/settings';
+import { Holiday } from '../storage/holidays';
+import { WEEKDAY_NAMES } from '../utils/recurrence';
+import { describeWorkSchedule } from '../utils/workingTime';
+import { pickTextFile } from '../utils/files';
+import { parseHolidays } from '../utils/ical';
+import { useStorage } from '../components/StorageProvider';
+
+interface WorkingTimeScreenProps {
+  navigation: any;
+}
+
+/**
+ * WorkingTimeScreen component edits the work schedule and the holiday list
+ * Goals counting business days or working hours skip days off and holidays
+ * Holidays can be added one by one or imported from an .ics calendar
+ */
+export const WorkingTimeScreen: React.FC<WorkingTimeScreenProps> = () => {
+  const { settingsStorage, holidayStorage } = useStorage();
+  const [schedule, setSchedule] = useState<WorkSchedule>(DEFAULT_WORK_SCHEDULE);
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [newHolidayDate, setNewHolidayDate] = useState<string>('');
+  const [newHolidayName, setNewHolidayName] = useState<string>('');
+  const [isBusy, setIsBusy] = useState<boolean>(false);
+
+  useEffect(() => {
+    const loadWorkingTime = async () => {
+      const settings = await settingsStorage.getSettings();
+      setSchedule(settings.workSchedule);
+      setHolidays(await holidayStorage.getAllHolidays());
+    };
+
+    loadWorkingTime();
+  }, [settingsStorage, holidayStorage]);
+
+  /**
+   * Save a changed schedule, refusing days that end before they start
+   */
+  const handleScheduleChange = async (nextSchedule: WorkSchedule) => {
+    if (nextSchedule.endTime <= nextSchedule.startTime) {
+      Alert.alert(
+        'Validation Error',
+        'The working day has to end after it starts.',
+        [{ text: 'OK' }]
+      );
+      return;
+    }
+
+    setSchedule(nextSchedule);
+    const success = await settingsStorage.updateSettings({ workSchedule: nextSchedule });
+    if (!success) {
+      Alert.alert(
+        'Error',
+        'Failed to save the work schedule. Please try again.',
+        [{ text: 'OK' }]
+      );
+    }
+  };
+
+  /**
+   * Add or remove a working day
+   */
+  const handleToggleWeekday = (weekday: number) => {
+    const weekdays = schedule.weekdays.includes(weekday)
+      ? schedule.weekdays.filter(day => day !== weekday)
+      : [...schedule.weekdays, weekday].sort((a, b) => a - b);
+    handleScheduleChange({ ...schedule, weekdays });
+  };
+
+  /**
+   * Handle adding the holiday entered in the form
+   */
+  const handleAddHoliday = async () => {
+    if (!newHolidayDate) {
+      Alert.alert(
+        'Validation Error',
+        'Select the date of the holiday.',
+        [{ text: 'OK' }]
+      );
+      return;
+    }
+
+    const success = await holidayStorage.addHolidays([
+      { date: newHolidayDate, name: newHolidayName.trim() || 'Holiday' },
+    ]);
+    if (success) {
+      setHolidays(await holidayStorage.getAllHolidays());
+      setNewHolidayDate('');
+      setNewHolidayName('');
+    } else {
+      Alert.alert(
+        'Error',
+        'Failed to add holiday. Please try again.',
+        [{ text: 'OK' }]
+      );
+    }
+  };
+
+  /**
+   * Handle deleting a holiday
+   */
+  const handleDeleteHoliday = async (holiday: Holiday) => {
+    const success = await holidayStorage.deleteHoliday(holiday.date);
+    if (success) {
+      setHolidays(prevHolidays => prevHolidays.filter(h => h.date !== holiday.date));
+    }
+  };
+
+  /**
+   * Pick an .ics file and add its events as holidays after confirming
+   */
+  const handleImportHolidays = async () => {
+    try {
+      const text = await pickTextFile(['text/calendar', 'text/plain']);
+      if (text === null) {
+        return;
+      }
+
+      const { holidays: imported, skipped } = parseHolidays(text);
+      if (imported.length === 0) {
+        Alert.alert('Nothing to Import', 'The calendar has no events with a date.', [{ text: 'OK' }]);
+        return;
+      }
+
+      const skippedNote = skipped > 0 ? ` ${skipped} event(s) without a date will be skipped.` : '';
+      Alert.alert(
+        'Import Holidays',
+        `Add ${imported.length} holiday(s) from this calendar?${skippedNote}`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Import',
+            onPress: async () => {
+              setIsBusy(true);
+              const success = await holidayStorage.addHolidays(imported);
+              setHolidays(await holidayStorage.getAllHolidays());
+              setIsBusy(false);
+
+              if (!success) {
+                Alert.alert('Error', 'Failed to import holidays. Please try again.', [{ text: 'OK' }]);
+              }
+            },
+          },
+        ]
+      );
+    } catch (error) {
+      console.error('Error reading holiday calendar:', error);
+      const message = error instanceof Error ? error.message : 'Failed to read the calendar file.';
+      Alert.alert('Error', message, [{ text: 'OK' }]);
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.scrollContent}>
+      {/* Work Schedule */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Work Schedule</Text>
+        <Text style={styles.sectionHint}>
+          Goals counting business days or working hours only count these days and hours,
+          in each goal's own time zone.
+        </Text>
+        <View style={styles.chipRow}>
+          {WEEKDAY_NAMES.map((name, weekday) => {
+            const isSelected = schedule.weekdays.includes(weekday);
+            return (
+              <TouchableOpacity
+                key={name}
+                style={[styles.chip, isSelected && styles.chipSelected]}
+                onPress={() => handleToggleWeekday(weekday)}
+              >
+                <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{name}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        <Text style={styles.label}>Starts</Text>
+        <TimePicker
+          selectedTime={schedule.startTime}
+          onTimeChange={(time) => handleScheduleChange({ ...schedule, startTime: time })}
+        />
+        <Text style={styles.label}>Ends</Text>
+        <TimePicker
+          selectedTime={schedule.endTime}
+          onTimeChange={(time) => handleScheduleChange({ ...schedule, endTime: time })}
+        />
+        <Text style={styles.summaryText}>{describeWorkSchedule(schedule)}</Text>
+      </View>
+
+      {/* Holidays */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Holidays</Text>
+        <DatePicker
+          selectedDate={newHolidayDate}
+          onDateChange={setNewHolidayDate}
+          placeholder="Select holiday date"
+        />
+        <View style={styles.addRow}>
+          <TextInput
+            style={styles.textInput}
+            value={newHolidayName}
+            onChangeText={setNewHolidayName}
+            placeholder="Name, e.g. New Year's Day"
+            placeholderTextColor="#999"
+            maxLength={50}
+          />
+          <TouchableOpacity style={styles.addButton} onPress={handleAddHoliday}>
+            <Text style={styles.addButtonText}>Add</Text>
+          </TouchableOpacity>
+        </View>
+        <TouchableOpacity
+          style={[styles.importButton, isBusy && styles.buttonDisabled]}
+          onPress={handleImportHolidays}
+          disabled={isBusy}
+        >
+          <Text style={styles.importButtonText}>Import from Calendar (.ics)</Text>
+        </TouchableOpacity>
+
+        {holidays.length > 0 ? (
+          holidays.map(holiday => (
+            <View key={holiday.date} style={styles.holidayRow}>
+              <View style={styles.holidayInfo}>
+                <Text style={styles.holidayName}>{holiday.name}</Text>
+                <Text style={styles.holidayDate}>{holiday.date}</Text>
+              </View>
+              <TouchableOpacity onPress={() => handleDeleteHoliday(holiday)}>
+                <Text style={styles.deleteText}>Delete</Text>
+              </TouchableOpacity>
+            </View>
+          ))
+        ) : (
+          <Text style={styles.emptyText}>No holidays yet.</Text>
+        )}
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8F9FA',
+  },
+  scrollContent: {
+    paddingBottom: 20,
+  },
+  section: {
+    backgroundColor: 'white',
+    padding: 16,
+    marginTop: 12,
+    borderTopWidth: 1,
+    borderBottomWidth: 1,
+    borderColor: '#E9ECEF',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 4,
+  },
+  sectionHint: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#F0F0F0',
+    borderWidth: 1,
+    borderColor: '#DDD',
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#666',
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: 'white',
+  },
+  summaryText: {
+    fontSize: 14,
+    color: '#1976D2',
+    fontWeight: '600',
+    marginTop: 12,
+  },
+  addRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  textInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#DDD',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    backgroundColor: 'white',
+    color: '#333',
+  },
+  addButton: {
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    backgroundColor: '#007AFF',
+    justifyContent: 'center',
+  },
+  addButtonText: {
+    fontSize: 16,
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  importButton: {
+    marginTop: 12,
+    marginBottom: 8,
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    alignItems: 'center',
+  },
+  importButtonText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  holidayRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F0F0F0',
+  },
+  holidayInfo: {
+    flex: 1,
+  },
+  holidayName: {
+    fontSize: 14,
+    color: '#333',
+    fontWeight: '500',
+  },
+  holidayDate: {
+    fontSize: 12,
+    color: '#999',
+  },
+  deleteText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    fontStyle: 'italic',
+    marginTop: 8,
+  },
+});
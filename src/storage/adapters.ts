@@ -0,0 +1,77 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * Key-value backend the repositories persist through
+ * Values are strings, callers handle serialization
+ */
+export interface StorageAdapter {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<void>;
+  remove(key: string): Promise<void>;
+  list(prefix?: string): Promise<string[]>; // Keys, optionally limited to a prefix
+  getMany(keys: string[]): Promise<(string | null)[]>; // Values in the same order as keys
+  setMany(entries: [string, string][]): Promise<void>;
+  removeMany(keys: string[]): Promise<void>;
+}
+
+/**
+ * Adapter backed by React Native AsyncStorage, used by the app
+ */
+export const asyncStorageAdapter: StorageAdapter = {
+  get: (key) => AsyncStorage.getItem(key),
+  set: (key, value) => AsyncStorage.setItem(key, value),
+  remove: (key) => AsyncStorage.removeItem(key),
+  list: async (prefix = '') => {
+    const keys = await AsyncStorage.getAllKeys();
+    return keys.filter(key => key.startsWith(prefix));
+  },
+  getMany: async (keys) => {
+    const entries = await AsyncStorage.multiGet(keys);
+    return entries.map(([, value]) => value);
+  },
+  setMany: (entries) => AsyncStorage.multiSet(entries),
+  removeMany: (keys) => AsyncStorage.multiRemove(keys),
+};
+
+/**
+ * Adapter that keeps everything in memory
+ * For running storage logic outside React Native, e.g. against fake data
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  private data: Map<string, string>;
+
+  /**
+   * @param initialData - Keys and values to start with
+   */
+  constructor(initialData: Record<string, string> = {}) {
+    this.data = new Map(Object.entries(initialData));
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.data.get(key) ?? null;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.data.set(key, value);
+  }
+
+  async remove(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+
+  async list(prefix = ''): Promise<string[]> {
+    return Array.from(this.data.keys()).filter(key => key.startsWith(prefix));
+  }
+
+  async getMany(keys: string[]): Promise<(string | null)[]> {
+    return keys.map(key => this.data.get(key) ?? null);
+  }
+
+  async setMany(entries: [string, string][]): Promise<void> {
+    entries.forEach(([key, value]) => this.data.set(key, value));
+  }
+
+  async removeMany(keys: string[]): Promise<void> {
+    keys.forEach(key => this.data.delete(key));
+  }
+}
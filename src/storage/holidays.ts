@@ -0,0 +1,84 @@
+import { StorageAdapter, asyncStorageAdapter } from './adapters';
+
+// Define the Holiday interface - a day business-day and working-hour countdowns skip
+export interface Holiday {
+  date: string; // YYYY-MM-DD format, one holiday per date
+  name: string;
+}
+
+// Storage key for the holiday list
+const HOLIDAYS_STORAGE_KEY = '@countdown_tracker_holidays';
+
+/**
+ * Repository for the user's holiday list on top of a StorageAdapter
+ */
+export class HolidayRepository {
+  private adapter: StorageAdapter;
+
+  /**
+   * @param adapter - Backend the holidays are persisted in
+   */
+  constructor(adapter: StorageAdapter) {
+    this.adapter = adapter;
+  }
+
+  /**
+   * Get all holidays
+   * @returns Promise<Holiday[]> - Holidays sorted by date
+   */
+  async getAllHolidays(): Promise<Holiday[]> {
+    try {
+      const holidaysJson = await this.adapter.get(HOLIDAYS_STORAGE_KEY);
+      const holidays: Holiday[] = holidaysJson ? JSON.parse(holidaysJson) : [];
+      return holidays.sort((a, b) => a.date.localeCompare(b.date));
+    } catch (error) {
+      console.error('Error getting holidays:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Add holidays, replacing the names of ones already on the list for the same date
+   * @param added - Holidays to add
+   * @returns Promise<boolean> - Success status
+   */
+  async addHolidays(added: Holiday[]): Promise<boolean> {
+    try {
+      const holidays = await this.getAllHolidays();
+      for (const holiday of added) {
+        const index = holidays.findIndex(existing => existing.date === holiday.date);
+        if (index === -1) {
+          holidays.push(holiday);
+        } else {
+          holidays[index] = holiday;
+        }
+      }
+
+      await this.adapter.set(HOLIDAYS_STORAGE_KEY, JSON.stringify(holidays));
+      return true;
+    } catch (error) {
+      console.error('Error adding holidays:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete a holiday
+   * @param date - Date of the holiday to delete
+   * @returns Promise<boolean> - Success status
+   */
+  async deleteHoliday(date: string): Promise<boolean> {
+    try {
+      const holidays = await this.getAllHolidays();
+      const remaining = holidays.filter(holiday => holiday.date !== date);
+      await this.adapter.set(HOLIDAYS_STORAGE_KEY, JSON.stringify(remaining));
+      return true;
+    } catch (error) {
+      console.error('Error deleting holiday:', error);
+      return false;
+    }
+  }
+}
+
+// Holiday repository used by the app, persisted in AsyncStorage
+export const HolidayStorage = new HolidayRepository(asyncStorageAdapter);
@@ -0,0 +1,135 @@
+import { StorageAdapter } from './adapters';
+import { getDeviceTimeZone, zonedTimeToUtc } from '../utils/timezone';
+
+// Storage key used by the legacy storage.js module
+export const LEGACY_GOALS_STORAGE_KEY = 'countdown_goals';
+
+// Key an unreadable legacy goal list is moved to, so removing the legacy key doesn't lose it
+const LEGACY_QUARANTINE_KEY = '@countdown_tracker_quarantine:countdown_goals';
+
+// Goal record as found on disk, before it has been upgraded to the current shape
+export type StoredGoal = Record<string, any>;
+
+/**
+ * A migration upgrades the stored goal list by exactly one schema version
+ * The adapter gives access to other keys in the same backend, e.g. legacy data
+ */
+export type Migration = (goals: StoredGoal[], adapter: StorageAdapter) => Promise<StoredGoal[]>;
+
+/**
+ * v0 -> v1: import goals written by the legacy storage.js module
+ * Legacy goals are merged by ID, so goals already present are kept as they are.
+ * Records without a deadline cannot be shown by the app and are skipped.
+ * The legacy key is left in place here; GoalRepository removes it after the imported goals are written.
+ * A legacy value that isn't a goal list is copied to a quarantine key and nothing is imported,
+ * so a corrupt value can't stop storage from opening.
+ */
+const importLegacyGoals: Migration = async (goals, adapter) => {
+  const legacyJson = await adapter.get(LEGACY_GOALS_STORAGE_KEY);
+  if (!legacyJson) {
+    return goals;
+  }
+
+  let legacyGoals: unknown;
+  try {
+    legacyGoals = JSON.parse(legacyJson);
+  } catch (error) {
+    console.warn(`Legacy goals are not valid JSON, moved to ${LEGACY_QUARANTINE_KEY}:`, error);
+    await adapter.set(LEGACY_QUARANTINE_KEY, legacyJson);
+    return goals;
+  }
+
+  if (!Array.isArray(legacyGoals)) {
+    console.warn(`Legacy goals are not a goal list, moved to ${LEGACY_QUARANTINE_KEY}`);
+    await adapter.set(LEGACY_QUARANTINE_KEY, legacyJson);
+    return goals;
+  }
+
+  const existingIds = new Set(goals.map(goal => goal.id));
+  const imported = legacyGoals
+    .filter((goal: StoredGoal) =>
+      goal &&
+      typeof goal.title === 'string' &&
+      typeof goal.deadlineDate === 'string' &&
+      typeof goal.deadlineTime === 'string'
+    )
+    .map((goal: StoredGoal) => ({
+      ...goal,
+      id: String(goal.id ?? Date.now().toString() + Math.random().toString(36).substr(2, 9)),
+      createdAt: goal.createdAt ?? new Date().toISOString(),
+    }))
+    .filter((goal: StoredGoal) => !existingIds.has(goal.id));
+
+  console.log(`Imported ${imported.length} goals from legacy storage`);
+  return [...goals, ...imported];
+};
+
+/**
+ * v1 -> v2: store deadlines as absolute instants
+ * Older goals only had naive local date/time strings, so they are pinned to the
+ * zone the device is in when the migration runs.
+ */
+const addDeadlineInstants: Migration = async (goals) => {
+  const deviceTimeZone = getDeviceTimeZone();
+
+  return goals.map(goal => {
+    if (goal.deadlineAt && goal.timeZone) {
+      return goal;
+    }
+
+    const timeZone = goal.timeZone ?? deviceTimeZone;
+    return {
+      ...goal,
+      timeZone,
+      deadlineAt: zonedTimeToUtc(goal.deadlineDate, goal.deadlineTime, timeZone).toISOString(),
+    };
+  });
+};
+
+/**
+ * v2 -> v3: add an explicit lifecycle status
+ * Every existing goal starts out active; outcomes are asked for once the deadline has passed
+ */
+const addGoalStatus: Migration = async (goals) => {
+  return goals.map(goal => ({
+    ...goal,
+    status: goal.status ?? 'active',
+    statusChangedAt: goal.statusChangedAt ?? goal.createdAt,
+  }));
+};
+
+/**
+ * Ordered list of schema migrations
+ * MIGRATIONS[n] upgrades stored data from version n to version n + 1
+ * Append new migrations here whenever the Goal interface changes shape
+ */
+export const MIGRATIONS: Migration[] = [
+  importLegacyGoals,
+  addDeadlineInstants,
+  addGoalStatus,
+];
+
+// Schema version written alongside the goals
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS.length;
+
+/**
+ * Run every migration between the stored version and the current one, in order
+ * @param goals - Goals as read from storage
+ * @param fromVersion - Schema version the goals were stored with
+ * @param adapter - Backend the goals were read from
+ * @returns Promise<StoredGoal[]> - Goals upgraded to CURRENT_SCHEMA_VERSION
+ */
+export const runMigrations = async (
+  goals: StoredGoal[],
+  fromVersion: number,
+  adapter: StorageAdapter
+): Promise<StoredGoal[]> => {
+  let migrated = goals;
+
+  for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+    migrated = await MIGRATIONS[version](migrated, adapter);
+    console.log(`Migrated goals from schema v${version} to v${version + 1}`);
+  }
+
+  return migrated;
+};
@@ -0,0 +1,81 @@
+import { StorageAdapter, asyncStorageAdapter } from './adapters';
+import { DEFAULT_LIST_VIEW, GoalListView } from './smartLists';
+
+// Working days and hours that business-day and working-hour countdowns count
+export interface WorkSchedule {
+  weekdays: number[]; // 0 (Sunday) to 6 (Saturday)
+  startTime: string; // HH:MM format (24-hour), in each goal's time zone
+  endTime: string; // HH:MM format (24-hour), after startTime
+}
+
+// Define the app settings interface
+export interface AppSettings {
+  trashRetentionDays: number; // Goals in the trash are purged after this many days
+  lastListView: GoalListView; // Sort and filters last used on the goal list
+  workSchedule: WorkSchedule;
+}
+
+export const DEFAULT_WORK_SCHEDULE: WorkSchedule = {
+  weekdays: [1, 2, 3, 4, 5],
+  startTime: '09:00',
+  endTime: '17:00',
+};
+
+// Storage key for settings
+const SETTINGS_STORAGE_KEY = '@countdown_tracker_settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  trashRetentionDays: 30,
+  lastListView: DEFAULT_LIST_VIEW,
+  workSchedule: DEFAULT_WORK_SCHEDULE,
+};
+
+/**
+ * Repository for user settings on top of a StorageAdapter
+ * Missing keys fall back to DEFAULT_SETTINGS so new settings need no migration
+ */
+export class SettingsRepository {
+  private adapter: StorageAdapter;
+
+  /**
+   * @param adapter - Backend the settings are persisted in
+   */
+  constructor(adapter: StorageAdapter) {
+    this.adapter = adapter;
+  }
+
+  /**
+   * Get the current settings
+   * @returns Promise<AppSettings> - Stored settings merged over the defaults
+   */
+  async getSettings(): Promise<AppSettings> {
+    try {
+      const settingsJson = await this.adapter.get(SETTINGS_STORAGE_KEY);
+      return settingsJson
+        ? { ...DEFAULT_SETTINGS, ...JSON.parse(settingsJson) }
+        : DEFAULT_SETTINGS;
+    } catch (error) {
+      console.error('Error getting settings:', error);
+      return DEFAULT_SETTINGS;
+    }
+  }
+
+  /**
+   * Update some settings, keeping the rest
+   * @param changes - Settings to change
+   * @returns Promise<boolean> - Success status
+   */
+  async updateSettings(changes: Partial<AppSettings>): Promise<boolean> {
+    try {
+      const settings = await this.getSettings();
+      await this.adapter.set(SETTINGS_STORAGE_KEY, JSON.stringify({ ...settings, ...changes }));
+      return true;
+    } catch (error) {
+      console.error('Error updating settings:', error);
+      return false;
+    }
+  }
+}
+
+// Settings repository used by the app, persisted in AsyncStorage
+export const SettingsStorage = new SettingsRepository(asyncStorageAdapter);
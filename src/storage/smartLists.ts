@@ -0,0 +1,112 @@
+import { StorageAdapter, asyncStorageAdapter } from './adapters';
+import { GoalDisplayState } from '../utils/goalStatus';
+
+// 'overdue' puts the goals furthest past their deadline first
+export type SortOption = 'deadline' | 'created' | 'title' | 'overdue';
+// 'ready' lists active goals that aren't waiting on another goal
+export type StatusFilter = 'all' | 'ready' | GoalDisplayState;
+export type DeadlineWindow = 'any' | 'overdue' | 'today' | 'next7Days' | 'next30Days';
+
+// Sort and filter choices that make up a view of the goal list
+export interface GoalListView {
+  sortBy: SortOption;
+  filterBy: StatusFilter;
+  tags: string[]; // Goals with any of these tags, all goals when empty
+  deadlineWindow: DeadlineWindow;
+}
+
+// Define the SmartList interface - a named, saved view of the goal list
+export interface SmartList extends GoalListView {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+}
+
+export const DEFAULT_LIST_VIEW: GoalListView = {
+  sortBy: 'deadline',
+  filterBy: 'all',
+  tags: [],
+  deadlineWindow: 'any',
+};
+
+// Storage key for saved smart lists
+const SMART_LISTS_STORAGE_KEY = '@countdown_tracker_smart_lists';
+
+/**
+ * Repository for saved smart lists on top of a StorageAdapter, kept in the order they were created
+ */
+export class SmartListRepository {
+  private adapter: StorageAdapter;
+
+  /**
+   * @param adapter - Backend the smart lists are persisted in
+   */
+  constructor(adapter: StorageAdapter) {
+    this.adapter = adapter;
+  }
+
+  /**
+   * Get all saved smart lists
+   * @returns Promise<SmartList[]> - Array of all smart lists
+   */
+  async getAllSmartLists(): Promise<SmartList[]> {
+    try {
+      const listsJson = await this.adapter.get(SMART_LISTS_STORAGE_KEY);
+      return listsJson ? JSON.parse(listsJson) : [];
+    } catch (error) {
+      console.error('Error getting smart lists:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save a smart list, replacing one with the same ID
+   * @param list - Smart list to save
+   * @returns Promise<boolean> - Success status
+   */
+  async saveSmartList(list: SmartList): Promise<boolean> {
+    try {
+      const lists = await this.getAllSmartLists();
+      const index = lists.findIndex(existing => existing.id === list.id);
+
+      if (index === -1) {
+        lists.push(list);
+      } else {
+        lists[index] = list;
+      }
+
+      await this.adapter.set(SMART_LISTS_STORAGE_KEY, JSON.stringify(lists));
+      return true;
+    } catch (error) {
+      console.error('Error saving smart list:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete a smart list
+   * @param id - Smart list ID to delete
+   * @returns Promise<boolean> - Success status
+   */
+  async deleteSmartList(id: string): Promise<boolean> {
+    try {
+      const lists = await this.getAllSmartLists();
+      const remaining = lists.filter(list => list.id !== id);
+      await this.adapter.set(SMART_LISTS_STORAGE_KEY, JSON.stringify(remaining));
+      return true;
+    } catch (error) {
+      console.error('Error deleting smart list:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Generate a unique ID for smart lists
+   */
+  generateId(): string {
+    return Date.now().toString() + Math.random().toString(36).substr(2, 9);
+  }
+}
+
+// Smart list repository used by the app, persisted in AsyncStorage
+export const SmartListStorage = new SmartListRepository(asyncStorageAdapter);
@@ -1,3 +1,7 @@
+// Deprecated: superseded by storage.ts. Goals saved under 'countdown_goals' are
+// imported into the versioned goal store by the v0 -> v1 migration in migrations.ts,
+// and the key is removed once they have been written.
+
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 const GOALS_KEY = 'countdown_goals';
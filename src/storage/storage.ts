@@ -1,34 +1,202 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { StorageAdapter, asyncStorageAdapter } from './adapters';
+import { CURRENT_SCHEMA_VERSION, LEGACY_GOALS_STORAGE_KEY, StoredGoal, runMigrations } from './migrations';
+import { recordChanges, recordCreation } from '../utils/history';
+
+// How often a recurring goal repeats
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+// Define the recurrence rule for goals with rolling deadlines
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  weekdays?: number[]; // Weekly only: 0 (Sunday) to 6 (Saturday)
+  monthlyMode?: 'dayOfMonth' | 'lastWeekday'; // Monthly only
+  dayOfMonth?: number; // Monthly/yearly: day the goal falls on, clamped to short months
+}
+
+// Outcome recorded for each past occurrence of a recurring goal
+export interface OccurrenceRecord {
+  deadlineAt: string; // ISO timestamp of the occurrence's deadline
+  outcome: 'met' | 'missed';
+  recordedAt: string; // ISO timestamp
+}
+
+// Lifecycle of a goal - only 'active' goals count down
+export type GoalStatus = 'active' | 'achieved' | 'missed' | 'abandoned';
+
+// Countdowns run to their deadline; count-up trackers show the time since their deadlineAt
+export type GoalKind = 'countdown' | 'countUp';
+
+// Finished run of a count-up tracker, recorded when it is reset
+export interface StreakRecord {
+  startedAt: string; // ISO timestamp the run started counting from
+  endedAt: string; // ISO timestamp of the reset
+}
+
+// What a goal counts down in - all time, business days, or working hours of the work schedule
+export type CountdownMode = 'calendar' | 'businessDays' | 'workingHours';
+
+// Intermediate checkpoint with its own deadline, in the goal's time zone
+export interface Milestone {
+  id: string;
+  title: string;
+  deadlineDate: string; // YYYY-MM-DD format, wall-clock date in the goal's timeZone
+  deadlineTime: string; // HH:MM format (24-hour), wall-clock time in the goal's timeZone
+  deadlineAt: string; // ISO timestamp of the milestone deadline (UTC)
+  done: boolean;
+}
+
+// Amount of progress logged towards a quantitative goal's target
+export interface ProgressEntry {
+  id: string;
+  at: string; // ISO timestamp of when the progress was logged
+  value: number; // Amount added, negative to correct an earlier entry
+}
+
+// Kind of change recorded in a goal's history
+export type HistoryAction =
+  | 'created'
+  | 'edited'
+  | 'statusChanged'
+  | 'rolledOver'
+  | 'streakReset'
+  | 'archived'
+  | 'trashed'
+  | 'restored';
+
+// Before and after values of one changed field
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Timestamped change to a goal
+export interface HistoryEntry {
+  at: string; // ISO timestamp
+  action: HistoryAction;
+  changes: FieldChange[];
+}
+
+// Deadline moved to a later instant, kept apart from the history for slip stats
+export interface DeadlineExtension {
+  at: string; // ISO timestamp of the edit
+  fromDeadlineAt: string; // ISO timestamp of the old deadline
+  toDeadlineAt: string; // ISO timestamp of the new deadline
+}
 
 // Define the Goal interface
+// Count-up trackers have no deadline - their deadline fields hold the instant the current run started
 export interface Goal {
   id: string;
+  kind?: GoalKind; // Countdown when unset
   title: string;
   description?: string;
-  deadlineDate: string; // YYYY-MM-DD format
-  deadlineTime: string; // HH:MM format (24-hour)
+  deadlineDate: string; // YYYY-MM-DD format, wall-clock date in timeZone
+  deadlineTime: string; // HH:MM format (24-hour), wall-clock time in timeZone
+  deadlineAt: string; // ISO timestamp of the deadline instant (UTC)
+  timeZone: string; // IANA time zone the deadline was set in
+  startDate?: string; // YYYY-MM-DD format, day work starts in timeZone - progress counts from createdAt when unset
   createdAt: string; // ISO timestamp
+  status: GoalStatus; // Persisted outcome of the goal
+  statusChangedAt: string; // ISO timestamp of the last status change
   notificationIds?: string[]; // Array of notification IDs for this goal
+  recurrence?: RecurrenceRule; // Set for goals that roll to a next occurrence
+  occurrences?: OccurrenceRecord[]; // History of past occurrences, oldest first
+  milestones?: Milestone[]; // Ordered checkpoints leading up to the final deadline
+  tags?: string[]; // Tag names, colors are kept in TagStorage
+  reminderOffsets?: number[]; // Minutes before the deadline to remind, defaults apply when unset
+  countdownMode?: CountdownMode; // Also show working time left, calendar only when unset
+  streaks?: StreakRecord[]; // Count-up trackers only: runs ended by a reset, oldest first
+  targetValue?: number; // Set for quantitative goals, e.g. 24 for "read 24 books"
+  unit?: string; // Unit of the target value, e.g. "books" or "km"
+  progressLog?: ProgressEntry[]; // Progress towards the target, oldest first
+  dependsOn?: string[]; // IDs of goals that have to finish before this one can start
+  archivedAt?: string; // ISO timestamp, set while the goal is archived
+  deletedAt?: string; // ISO timestamp, set while the goal is in the trash
+  history?: HistoryEntry[]; // Changes made through GoalStorage, oldest first
+  deadlineExtensions?: DeadlineExtension[]; // Times the deadline was pushed back, oldest first
 }
 
-// Storage key for goals
+// Storage key of the single-key goal list used before goals got their own keys
 const GOALS_STORAGE_KEY = '@countdown_tracker_goals';
 
+// Storage key of the goal index: schema version and goal IDs in list order
+const GOAL_INDEX_KEY = '@countdown_tracker_goal_index';
+
+// Prefix of the per-goal keys, followed by the goal ID
+const GOAL_KEY_PREFIX = '@countdown_tracker_goal:';
+
+// Prefix of the keys unreadable goals are moved to, followed by the goal ID
+const QUARANTINE_KEY_PREFIX = '@countdown_tracker_quarantine:';
+
+// Shape persisted under GOALS_STORAGE_KEY
+interface GoalsPayload {
+  version: number;
+  goals: StoredGoal[];
+}
+
+// Shape persisted under GOAL_INDEX_KEY
+interface GoalIndex {
+  version: number;
+  ids: string[];
+}
+
+// One page of goals in list order
+export interface GoalPage {
+  goals: Goal[];
+  total: number; // Number of goals in storage
+}
+
+/**
+ * Storage key of a single goal
+ */
+const getGoalKey = (goalId: string): string => `${GOAL_KEY_PREFIX}${goalId}`;
+
 /**
- * Storage utility class for managing goals in AsyncStorage
+ * Storage key an unreadable goal is kept under
+ */
+const getQuarantineKey = (goalId: string): string => `${QUARANTINE_KEY_PREFIX}${goalId}`;
+
+/**
+ * Repository for goals on top of a StorageAdapter
  * Handles all CRUD operations for goals with proper error handling
+ * Every goal is stored under its own key, with an index keeping their order,
+ * so an update only rewrites the goal that changed
+ * Creates and changes are recorded in each goal's history
+ * Every read-modify-write runs through a queue, so overlapping calls can't drop each other's changes
+ * A goal whose key can't be read is moved aside so the rest of the list still loads
  */
-export class GoalStorage {
+export class GoalRepository {
+  private adapter: StorageAdapter;
+
+  // Tail of the queue of pending storage operations
+  private queue: Promise<void> = Promise.resolve();
+
+  // Set once stored data has been brought to the current layout and schema
+  private ready: Promise<void> | null = null;
+
   /**
-   * Save a single goal to AsyncStorage
+   * @param adapter - Backend the goals are persisted in
+   */
+  constructor(adapter: StorageAdapter) {
+    this.adapter = adapter;
+  }
+
+  /**
+   * Save a single goal
    * @param goal - The goal object to save
    * @returns Promise<boolean> - Success status
    */
-  static async saveGoal(goal: Goal): Promise<boolean> {
+  async saveGoal(goal: Goal): Promise<boolean> {
     try {
-      const existingGoals = await this.getAllGoals();
-      const updatedGoals = [...existingGoals, goal];
-      await AsyncStorage.setItem(GOALS_STORAGE_KEY, JSON.stringify(updatedGoals));
+      await this.enqueue(async () => {
+        const index = await this.readIndex();
+        const ids = index.ids.includes(goal.id) ? index.ids : [...index.ids, goal.id];
+        await this.adapter.setMany([
+          [getGoalKey(goal.id), JSON.stringify(recordCreation(goal))],
+          [GOAL_INDEX_KEY, JSON.stringify({ ...index, ids })],
+        ]);
+      });
       return true;
     } catch (error) {
       console.error('Error saving goal:', error);
@@ -37,37 +205,76 @@ export class GoalStorage {
   }
 
   /**
-   * Get all goals from AsyncStorage
+   * Get all goals
+   * Upgrades data stored with an older schema version before returning it
+   * Waits for pending writes so the result includes them
    * @returns Promise<Goal[]> - Array of all goals
+   * @throws Error if the stored data can't be read - never reported as an empty list,
+   * so a later write can't overwrite goals that are still on disk
    */
-  static async getAllGoals(): Promise<Goal[]> {
+  async getAllGoals(): Promise<Goal[]> {
+    return this.enqueue(async () => {
+      const index = await this.readIndex();
+      return this.readGoals(index.ids);
+    });
+  }
+
+  /**
+   * Get a slice of the goal list, so long lists can be loaded a page at a time
+   * @param offset - Position of the first goal to return
+   * @param limit - Maximum number of goals to return
+   * @returns Promise<GoalPage> - The goals on the page and the total number of goals
+   * @throws Error if the stored data can't be read
+   */
+  async getGoalsPage(offset: number, limit: number): Promise<GoalPage> {
+    return this.enqueue(async () => {
+      const index = await this.readIndex();
+      return {
+        goals: await this.readGoals(index.ids.slice(offset, offset + limit)),
+        total: index.ids.length,
+      };
+    });
+  }
+
+  /**
+   * Get a single goal by ID
+   * @param goalId - ID of the goal to look up
+   * @returns Promise<Goal | null> - The goal, or null if it doesn't exist or can't be read
+   */
+  async getGoal(goalId: string): Promise<Goal | null> {
     try {
-      const goalsJson = await AsyncStorage.getItem(GOALS_STORAGE_KEY);
-      return goalsJson ? JSON.parse(goalsJson) : [];
+      return await this.enqueue(async () => {
+        await this.prepare();
+        const goalJson = await this.adapter.get(getGoalKey(goalId));
+        return goalJson ? this.parseGoal(goalId, goalJson) : null;
+      });
     } catch (error) {
-      console.error('Error getting goals:', error);
-      return [];
+      console.error('Error getting goal:', error);
+      return null;
     }
   }
 
   /**
    * Update an existing goal
+   * Only the goal's own key is rewritten
    * @param goalId - ID of the goal to update
    * @param updatedGoal - Updated goal object
    * @returns Promise<boolean> - Success status
    */
-  static async updateGoal(goalId: string, updatedGoal: Partial<Goal>): Promise<boolean> {
+  async updateGoal(goalId: string, updatedGoal: Partial<Goal>): Promise<boolean> {
     try {
-      const goals = await this.getAllGoals();
-      const goalIndex = goals.findIndex(goal => goal.id === goalId);
-      
-      if (goalIndex === -1) {
-        return false;
-      }
+      return await this.enqueue(async () => {
+        await this.prepare();
+        const goalJson = await this.adapter.get(getGoalKey(goalId));
+        if (!goalJson) {
+          return false;
+        }
 
-      goals[goalIndex] = { ...goals[goalIndex], ...updatedGoal };
-      await AsyncStorage.setItem(GOALS_STORAGE_KEY, JSON.stringify(goals));
-      return true;
+        const storedGoal = this.parseGoal(goalId, goalJson);
+        const goal = recordChanges(storedGoal, { ...storedGoal, ...updatedGoal });
+        await this.adapter.set(getGoalKey(goalId), JSON.stringify(goal));
+        return true;
+      });
     } catch (error) {
       console.error('Error updating goal:', error);
       return false;
@@ -75,41 +282,394 @@ export class GoalStorage {
   }
 
   /**
-   * Delete a goal by ID
+   * Move a goal to the trash
+   * The goal is kept until purgeExpiredTrash removes it after the retention period
+   * @param goalId - ID of the goal to trash
+   * @returns Promise<boolean> - Success status
+   */
+  async trashGoal(goalId: string): Promise<boolean> {
+    return this.updateGoal(goalId, { deletedAt: new Date().toISOString() });
+  }
+
+  /**
+   * Archive a goal, hiding it from the goal list without deleting it
+   * @param goalId - ID of the goal to archive
+   * @returns Promise<boolean> - Success status
+   */
+  async archiveGoal(goalId: string): Promise<boolean> {
+    return this.updateGoal(goalId, { archivedAt: new Date().toISOString() });
+  }
+
+  /**
+   * Restore a goal from the trash or the archive
+   * @param goalId - ID of the goal to restore
+   * @returns Promise<boolean> - Success status
+   */
+  async restoreGoal(goalId: string): Promise<boolean> {
+    return this.updateGoal(goalId, { deletedAt: undefined, archivedAt: undefined });
+  }
+
+  /**
+   * Permanently delete goals that have been in the trash longer than the retention period
+   * @param retentionDays - Days a trashed goal is kept
+   * @returns Promise<number> - Number of goals purged
+   */
+  async purgeExpiredTrash(retentionDays: number): Promise<number> {
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+    let purgedCount = 0;
+
+    const success = await this.transaction(goals => {
+      const keptGoals = goals.filter(
+        goal => !goal.deletedAt || new Date(goal.deletedAt).getTime() > cutoff
+      );
+      purgedCount = goals.length - keptGoals.length;
+      return purgedCount > 0 ? keptGoals : null;
+    });
+    return success ? purgedCount : 0;
+  }
+
+  /**
+   * Permanently delete a goal by ID
    * @param goalId - ID of the goal to delete
    * @returns Promise<boolean> - Success status
    */
-  static async deleteGoal(goalId: string): Promise<boolean> {
+  async deleteGoal(goalId: string): Promise<boolean> {
+    return this.deleteGoals([goalId]);
+  }
+
+  /**
+   * Permanently delete several goals in a single write
+   * @param goalIds - IDs of the goals to delete
+   * @returns Promise<boolean> - Success status
+   */
+  async deleteGoals(goalIds: string[]): Promise<boolean> {
     try {
-      const goals = await this.getAllGoals();
-      const filteredGoals = goals.filter(goal => goal.id !== goalId);
-      await AsyncStorage.setItem(GOALS_STORAGE_KEY, JSON.stringify(filteredGoals));
+      await this.enqueue(async () => {
+        const index = await this.readIndex();
+        const ids = new Set(goalIds);
+        // Drop the IDs from the index first so it never lists a deleted goal
+        await this.adapter.set(
+          GOAL_INDEX_KEY,
+          JSON.stringify({ ...index, ids: index.ids.filter(id => !ids.has(id)) })
+        );
+        await this.adapter.removeMany(goalIds.map(getGoalKey));
+      });
       return true;
     } catch (error) {
-      console.error('Error deleting goal:', error);
+      console.error('Error deleting goals:', error);
       return false;
     }
   }
 
+  /**
+   * Replace the whole goal list, e.g. when restoring a backup
+   * @param goals - Goals to store
+   * @returns Promise<boolean> - Success status
+   */
+  async replaceAllGoals(goals: Goal[]): Promise<boolean> {
+    return this.transaction(() => goals);
+  }
+
   /**
    * Clear all goals from storage
    * @returns Promise<boolean> - Success status
    */
-  static async clearAllGoals(): Promise<boolean> {
+  async clearAllGoals(): Promise<boolean> {
+    return this.transaction(() => []);
+  }
+
+  /**
+   * Apply several changes to the goal list as one batch
+   * The mutator gets the current goals and returns the new list, or null to leave storage untouched.
+   * Only goals that changed are written; the index is rewritten when goals are added, removed or reordered.
+   * Nothing is written if reading fails or the mutator throws.
+   * The mutator must not call other GoalStorage methods - they would wait for this transaction forever.
+   * @param mutator - Function computing the new goal list
+   * @returns Promise<boolean> - Success status
+   */
+  async transaction(
+    mutator: (goals: Goal[]) => Goal[] | null | Promise<Goal[] | null>
+  ): Promise<boolean> {
     try {
-      await AsyncStorage.removeItem(GOALS_STORAGE_KEY);
+      await this.enqueue(async () => {
+        const index = await this.readIndex();
+        const goals = await this.readGoals(index.ids);
+        const storedJson = new Map(goals.map(goal => [goal.id, JSON.stringify(goal)]));
+
+        const updatedGoals = await mutator(goals);
+        if (updatedGoals) {
+          await this.writeChanges(index, storedJson, updatedGoals);
+        }
+      });
       return true;
     } catch (error) {
-      console.error('Error clearing goals:', error);
+      console.error('Error writing goals:', error);
       return false;
     }
   }
 
+  /**
+   * Run a storage operation after every operation queued before it has finished
+   * @param task - Operation to run
+   * @returns Promise<T> - Result of the operation
+   */
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    // A failed operation must not block the ones queued after it
+    this.queue = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  /**
+   * Bring stored data to the per-goal layout and the current schema, once per repository
+   * Only call from inside a queued operation
+   */
+  private prepare(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.upgradeStorage().catch(error => {
+        // Try again on the next operation
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  /**
+   * Move goals from the single-key list to per-goal keys and run schema migrations
+   */
+  private async upgradeStorage(): Promise<void> {
+    const indexJson = await this.adapter.get(GOAL_INDEX_KEY);
+
+    if (!indexJson) {
+      const payload = this.parsePayload(await this.adapter.get(GOALS_STORAGE_KEY));
+      const goals = payload.version < CURRENT_SCHEMA_VERSION
+        ? await runMigrations(payload.goals, payload.version, this.adapter)
+        : payload.goals;
+
+      await this.writeAllGoals(goals as Goal[], Math.max(payload.version, CURRENT_SCHEMA_VERSION));
+      await this.adapter.remove(GOALS_STORAGE_KEY);
+      await this.removeLegacyGoals(payload.version);
+      return;
+    }
+
+    const index = this.parseIndex(indexJson);
+    if (index.version > CURRENT_SCHEMA_VERSION) {
+      console.warn(`Goals were stored with newer schema v${index.version}, reading as-is`);
+    } else if (index.version < CURRENT_SCHEMA_VERSION) {
+      const goals = await this.readGoals(index.ids);
+      const migratedGoals = await runMigrations(goals, index.version, this.adapter);
+      await this.writeAllGoals(migratedGoals as Goal[], CURRENT_SCHEMA_VERSION);
+      await this.removeLegacyGoals(index.version);
+    }
+  }
+
+  /**
+   * Remove the legacy storage.js goal list once the v0 -> v1 migration has imported it
+   * Only called after the imported goals have been written
+   * @param fromVersion - Schema version the migration started from
+   */
+  private async removeLegacyGoals(fromVersion: number): Promise<void> {
+    if (fromVersion === 0) {
+      await this.adapter.remove(LEGACY_GOALS_STORAGE_KEY);
+    }
+  }
+
+  /**
+   * Read the goal index, upgrading stored data first if needed
+   * Only call from inside a queued operation
+   * @returns Promise<GoalIndex> - Schema version and goal IDs in list order
+   */
+  private async readIndex(): Promise<GoalIndex> {
+    await this.prepare();
+    return this.parseIndex(await this.adapter.get(GOAL_INDEX_KEY));
+  }
+
+  /**
+   * Read goals by ID with a single multi-get
+   * IDs without a stored goal are skipped, unreadable goals are quarantined and skipped
+   * @param goalIds - IDs of the goals to read, in the order to return them
+   * @returns Promise<Goal[]> - The stored goals
+   */
+  private async readGoals(goalIds: string[]): Promise<Goal[]> {
+    if (goalIds.length === 0) {
+      return [];
+    }
+
+    const values = await this.adapter.getMany(goalIds.map(getGoalKey));
+    const goals: Goal[] = [];
+    const unreadable: [string, string][] = [];
+    values.forEach((goalJson, i) => {
+      if (!goalJson) {
+        console.warn(`Goal ${goalIds[i]} is in the index but not in storage`);
+        return;
+      }
+
+      try {
+        goals.push(this.parseGoal(goalIds[i], goalJson));
+      } catch (error) {
+        console.error('Error reading goal:', error);
+        unreadable.push([goalIds[i], goalJson]);
+      }
+    });
+
+    if (unreadable.length > 0) {
+      await this.quarantineGoals(unreadable);
+    }
+    return goals;
+  }
+
+  /**
+   * Move unreadable goals out of the goal list, keeping their raw values under quarantine keys
+   * Only call from inside a queued operation
+   * @param entries - IDs and stored values of the unreadable goals
+   */
+  private async quarantineGoals(entries: [string, string][]): Promise<void> {
+    const quarantinedIds = new Set(entries.map(([goalId]) => goalId));
+    const index = this.parseIndex(await this.adapter.get(GOAL_INDEX_KEY));
+
+    await this.adapter.setMany([
+      ...entries.map(([goalId, goalJson]) => [getQuarantineKey(goalId), goalJson] as [string, string]),
+      [GOAL_INDEX_KEY, JSON.stringify({ ...index, ids: index.ids.filter(id => !quarantinedIds.has(id)) })],
+    ]);
+    await this.adapter.removeMany(entries.map(([goalId]) => getGoalKey(goalId)));
+    console.warn(`Moved ${entries.length} unreadable goal(s) to ${QUARANTINE_KEY_PREFIX}`);
+  }
+
+  /**
+   * Write the goals that changed and, if the list itself changed, the index
+   * @param index - Index the goals were read with
+   * @param storedJson - Serialized goals as read, by ID
+   * @param goals - New goal list
+   */
+  private async writeChanges(
+    index: GoalIndex,
+    storedJson: Map<string, string>,
+    goals: Goal[]
+  ): Promise<void> {
+    const ids = goals.map(goal => goal.id);
+    const entries: [string, string][] = [];
+
+    for (const goal of goals) {
+      const previousJson = storedJson.get(goal.id);
+      if (previousJson === JSON.stringify(goal)) {
+        continue;
+      }
+
+      // Parse the stored copy again in case the mutator changed goals in place
+      const goalWithHistory = previousJson
+        ? recordChanges(JSON.parse(previousJson), goal)
+        : recordCreation(goal);
+      entries.push([getGoalKey(goal.id), JSON.stringify(goalWithHistory)]);
+    }
+
+    const idsChanged = ids.length !== index.ids.length || ids.some((id, i) => id !== index.ids[i]);
+    if (idsChanged) {
+      entries.push([GOAL_INDEX_KEY, JSON.stringify({ ...index, ids })]);
+    }
+
+    if (entries.length > 0) {
+      await this.adapter.setMany(entries);
+    }
+
+    const keptIds = new Set(ids);
+    const removedIds = index.ids.filter(id => !keptIds.has(id));
+    if (removedIds.length > 0) {
+      await this.adapter.removeMany(removedIds.map(getGoalKey));
+    }
+  }
+
+  /**
+   * Write every goal and a fresh index, removing goal keys no longer listed
+   * @param goals - Goals to persist
+   * @param version - Schema version the goals are in
+   */
+  private async writeAllGoals(goals: Goal[], version: number): Promise<void> {
+    const index: GoalIndex = { version, ids: goals.map(goal => goal.id) };
+    await this.adapter.setMany([
+      ...goals.map(goal => [getGoalKey(goal.id), JSON.stringify(goal)] as [string, string]),
+      [GOAL_INDEX_KEY, JSON.stringify(index)],
+    ]);
+
+    const keptKeys = new Set(index.ids.map(getGoalKey));
+    const staleKeys = (await this.adapter.list(GOAL_KEY_PREFIX)).filter(key => !keptKeys.has(key));
+    if (staleKeys.length > 0) {
+      await this.adapter.removeMany(staleKeys);
+    }
+  }
+
+  /**
+   * Parse the stored goal index
+   * @throws Error if the index is missing or malformed
+   */
+  private parseIndex(indexJson: string | null): GoalIndex {
+    const parsed = indexJson ? JSON.parse(indexJson) : null;
+    if (!parsed || typeof parsed.version !== 'number' || !Array.isArray(parsed.ids)) {
+      throw new Error('Stored goal index is missing or malformed');
+    }
+    return parsed;
+  }
+
+  /**
+   * Parse a single stored goal
+   * @throws Error if the stored value is not valid JSON or not a goal object
+   */
+  private parseGoal(goalId: string, goalJson: string): Goal {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(goalJson);
+    } catch (error) {
+      throw new Error(`Stored goal ${goalId} is not valid JSON: ${error}`);
+    }
+
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error(`Stored goal ${goalId} is not a goal object`);
+    }
+    return parsed as Goal;
+  }
+
+  /**
+   * Parse the single-key goal list written by earlier versions
+   * Data written before versioning was a bare array and is treated as schema v0
+   * @param goalsJson - Raw JSON string from the adapter
+   * @returns GoalsPayload - Stored goals with their schema version
+   * @throws Error if the stored value is not valid JSON or has no goal list
+   */
+  private parsePayload(goalsJson: string | null): GoalsPayload {
+    if (!goalsJson) {
+      return { version: 0, goals: [] };
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(goalsJson);
+    } catch (error) {
+      throw new Error(`Stored goals are not valid JSON: ${error}`);
+    }
+
+    if (Array.isArray(parsed)) {
+      return { version: 0, goals: parsed };
+    }
+
+    const payload = parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : null;
+    if (!payload || !Array.isArray(payload.goals)) {
+      throw new Error('Stored goals have no goal list');
+    }
+
+    return {
+      version: typeof payload.version === 'number' ? payload.version : 0,
+      goals: payload.goals,
+    };
+  }
+
   /**
    * Generate a unique ID for new goals
    * @returns string - Unique ID
    */
-  static generateId(): string {
+  generateId(): string {
     return Date.now().toString() + Math.random().toString(36).substr(2, 9);
   }
 }
+
+// Goal repository used by the app, persisted in AsyncStorage
+export const GoalStorage = new GoalRepository(asyncStorageAdapter);
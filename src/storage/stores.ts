@@ -0,0 +1,48 @@
+import { StorageAdapter } from './adapters';
+import { GoalRepository, GoalStorage } from './storage';
+import { SettingsRepository, SettingsStorage } from './settings';
+import { TagRepository, TagStorage } from './tags';
+import { TemplateRepository, TemplateStorage } from './templates';
+import { HolidayRepository, HolidayStorage } from './holidays';
+import { SmartListRepository, SmartListStorage } from './smartLists';
+import { GoalActionSet, GoalActions, createGoalActions } from '../utils/goalActions';
+
+// Every repository the screens read and write, all on the same backend
+export interface Stores {
+  goalStorage: GoalRepository;
+  goalActions: GoalActionSet; // Goal changes that also update reminders, on goalStorage
+  settingsStorage: SettingsRepository;
+  tagStorage: TagRepository;
+  templateStorage: TemplateRepository;
+  holidayStorage: HolidayRepository;
+  smartListStorage: SmartListRepository;
+}
+
+/**
+ * Build a full set of repositories on one adapter, e.g. a MemoryStorageAdapter holding fake data
+ * @param adapter - Backend every repository persists in
+ * @returns Stores - New repositories sharing the adapter
+ */
+export const createStores = (adapter: StorageAdapter): Stores => {
+  const goalStorage = new GoalRepository(adapter);
+  return {
+    goalStorage,
+    goalActions: createGoalActions(goalStorage),
+    settingsStorage: new SettingsRepository(adapter),
+    tagStorage: new TagRepository(adapter),
+    templateStorage: new TemplateRepository(adapter),
+    holidayStorage: new HolidayRepository(adapter),
+    smartListStorage: new SmartListRepository(adapter),
+  };
+};
+
+// Repositories used by the app, persisted in AsyncStorage
+export const APP_STORES: Stores = {
+  goalStorage: GoalStorage,
+  goalActions: GoalActions,
+  settingsStorage: SettingsStorage,
+  tagStorage: TagStorage,
+  templateStorage: TemplateStorage,
+  holidayStorage: HolidayStorage,
+  smartListStorage: SmartListStorage,
+};
@@ -0,0 +1,148 @@
+import { StorageAdapter, asyncStorageAdapter } from './adapters';
+
+// Define the Tag interface - goals reference tags by name
+export interface Tag {
+  name: string;
+  color: string; // Hex color used for the tag chip
+}
+
+// Storage key for tag definitions
+const TAGS_STORAGE_KEY = '@countdown_tracker_tags';
+
+// Colors handed out to new tags in turn
+export const TAG_COLORS = [
+  '#007AFF', '#28A745', '#FF9500', '#AF52DE',
+  '#FF2D55', '#5AC8FA', '#FFCC00', '#8E8E93',
+];
+
+/**
+ * Clean up a tag name typed by the user
+ * Trims and collapses whitespace; matching between tags is case-insensitive
+ */
+export const normalizeTagName = (name: string): string => {
+  return name.trim().replace(/\s+/g, ' ');
+};
+
+/**
+ * Case-insensitive tag name comparison
+ */
+export const isSameTag = (a: string, b: string): boolean => {
+  return a.toLowerCase() === b.toLowerCase();
+};
+
+/**
+ * Repository for user-defined tags and their colors on top of a StorageAdapter
+ */
+export class TagRepository {
+  private adapter: StorageAdapter;
+
+  /**
+   * @param adapter - Backend the tags are persisted in
+   */
+  constructor(adapter: StorageAdapter) {
+    this.adapter = adapter;
+  }
+
+  /**
+   * Get all tag definitions
+   * @returns Promise<Tag[]> - Array of all tags
+   */
+  async getAllTags(): Promise<Tag[]> {
+    try {
+      const tagsJson = await this.adapter.get(TAGS_STORAGE_KEY);
+      return tagsJson ? JSON.parse(tagsJson) : [];
+    } catch (error) {
+      console.error('Error getting tags:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Make sure every named tag has a definition, giving new tags the next palette color
+   * @param names - Tag names used by a goal
+   * @returns Promise<Tag[]> - All tag definitions after the update
+   */
+  async ensureTags(names: string[]): Promise<Tag[]> {
+    try {
+      const tags = await this.getAllTags();
+      let added = false;
+
+      for (const name of names) {
+        if (!tags.some(tag => isSameTag(tag.name, name))) {
+          tags.push({ name, color: TAG_COLORS[tags.length % TAG_COLORS.length] });
+          added = true;
+        }
+      }
+
+      if (added) {
+        await this.adapter.set(TAGS_STORAGE_KEY, JSON.stringify(tags));
+      }
+      return tags;
+    } catch (error) {
+      console.error('Error saving tags:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Change the color of a tag, creating the tag if needed
+   * @param name - Tag name
+   * @param color - New hex color
+   * @returns Promise<boolean> - Success status
+   */
+  async setTagColor(name: string, color: string): Promise<boolean> {
+    try {
+      const tags = await this.getAllTags();
+      const index = tags.findIndex(tag => isSameTag(tag.name, name));
+
+      if (index === -1) {
+        tags.push({ name, color });
+      } else {
+        tags[index] = { ...tags[index], color };
+      }
+
+      await this.adapter.set(TAGS_STORAGE_KEY, JSON.stringify(tags));
+      return true;
+    } catch (error) {
+      console.error('Error updating tag color:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Store tag definitions read from a backup
+   * When merging, tags already on the device keep their color
+   * @param imported - Tag definitions from the backup
+   * @param replace - Drop the current definitions first
+   * @returns Promise<boolean> - Success status
+   */
+  async importTags(imported: Tag[], replace: boolean): Promise<boolean> {
+    try {
+      const tags = replace ? [] : await this.getAllTags();
+      for (const tag of imported) {
+        if (!tags.some(existing => isSameTag(existing.name, tag.name))) {
+          tags.push({ name: normalizeTagName(tag.name), color: tag.color });
+        }
+      }
+
+      await this.adapter.set(TAGS_STORAGE_KEY, JSON.stringify(tags));
+      return true;
+    } catch (error) {
+      console.error('Error importing tags:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Build a lookup of tag colors by lower-cased name
+   */
+  toColorMap(tags: Tag[]): Record<string, string> {
+    return tags.reduce<Record<string, string>>((map, tag) => {
+      map[tag.name.toLowerCase()] = tag.color;
+      return map;
+    }, {});
+  }
+}
+
+// Tag repository used by the app, persisted in AsyncStorage
+export const TagStorage = new TagRepository(asyncStorageAdapter);
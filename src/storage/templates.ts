@@ -0,0 +1,111 @@
+import { StorageAdapter, asyncStorageAdapter } from './adapters';
+import { CountdownMode } from './storage';
+
+// Define the GoalTemplate interface - a reusable starting point for new goals
+export interface GoalTemplate {
+  id: string;
+  name: string; // Shown in the template list
+  title: string;
+  description?: string;
+  tags: string[];
+  reminderOffsets: number[]; // Minutes before the deadline
+  countdownMode?: CountdownMode;
+  targetValue?: number; // Target of quantitative goals
+  unit?: string;
+  deadlineOffsetDays: number; // Deadline is this many days after the template is used
+  deadlineTime: string; // HH:MM format (24-hour), in the zone the goal is created in
+  createdAt: string; // ISO timestamp
+}
+
+// Storage key for saved templates
+const TEMPLATES_STORAGE_KEY = '@countdown_tracker_templates';
+
+/**
+ * Repository for goal templates on top of a StorageAdapter
+ */
+export class TemplateRepository {
+  private adapter: StorageAdapter;
+
+  /**
+   * @param adapter - Backend the templates are persisted in
+   */
+  constructor(adapter: StorageAdapter) {
+    this.adapter = adapter;
+  }
+
+  /**
+   * Get all saved templates
+   * @returns Promise<GoalTemplate[]> - Templates sorted by name
+   */
+  async getAllTemplates(): Promise<GoalTemplate[]> {
+    try {
+      const templatesJson = await this.adapter.get(TEMPLATES_STORAGE_KEY);
+      const templates: GoalTemplate[] = templatesJson ? JSON.parse(templatesJson) : [];
+      return templates.sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+      console.error('Error getting templates:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get a specific template by ID
+   * @param id - Template ID
+   * @returns Promise<GoalTemplate | null> - Template or null if not found
+   */
+  async getTemplate(id: string): Promise<GoalTemplate | null> {
+    const templates = await this.getAllTemplates();
+    return templates.find(template => template.id === id) ?? null;
+  }
+
+  /**
+   * Save a template, replacing one with the same ID
+   * @param template - Template to save
+   * @returns Promise<boolean> - Success status
+   */
+  async saveTemplate(template: GoalTemplate): Promise<boolean> {
+    try {
+      const templates = await this.getAllTemplates();
+      const index = templates.findIndex(existing => existing.id === template.id);
+
+      if (index === -1) {
+        templates.push(template);
+      } else {
+        templates[index] = template;
+      }
+
+      await this.adapter.set(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+      return true;
+    } catch (error) {
+      console.error('Error saving template:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete a template
+   * @param id - Template ID to delete
+   * @returns Promise<boolean> - Success status
+   */
+  async deleteTemplate(id: string): Promise<boolean> {
+    try {
+      const templates = await this.getAllTemplates();
+      const remaining = templates.filter(template => template.id !== id);
+      await this.adapter.set(TEMPLATES_STORAGE_KEY, JSON.stringify(remaining));
+      return true;
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Generate a unique ID for templates
+   */
+  generateId(): string {
+    return Date.now().toString() + Math.random().toString(36).substr(2, 9);
+  }
+}
+
+// Template repository used by the app, persisted in AsyncStorage
+export const TemplateStorage = new TemplateRepository(asyncStorageAdapter);
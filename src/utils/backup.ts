@@ -0,0 +1,307 @@
+import { CountdownMode, Goal, GoalKind, GoalStatus, RecurrenceFrequency } from '../storage/storage';
+import { CURRENT_SCHEMA_VERSION, StoredGoal, runMigrations } from '../storage/migrations';
+import { Tag } from '../storage/tags';
+import { MemoryStorageAdapter } from '../storage/adapters';
+
+// Identifies a file as a goal backup made by this app
+export const BACKUP_FORMAT = 'countdown-tracker-backup';
+
+// Version of the backup document layout (not the goal schema)
+export const BACKUP_VERSION = 1;
+
+// Versioned document built by createBackup
+export interface BackupDocument {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number; // Goal schema version the goals were written with
+  exportedAt: string; // ISO timestamp
+  goals: Goal[];
+  tags: Tag[];
+}
+
+// Backup record that failed validation and will not be imported
+export interface InvalidBackupEntry {
+  index: number; // Position in the backup's goal list
+  title: string; // Title if the record has one, for the import report
+  errors: string[];
+}
+
+// Result of reading a backup file
+export interface ParsedBackup {
+  exportedAt: string;
+  goals: Goal[];
+  tags: Tag[];
+  invalid: InvalidBackupEntry[];
+}
+
+// How imported goals are combined with the goals already on the device
+export type ImportMode = 'merge' | 'replace';
+
+const GOAL_STATUSES: GoalStatus[] = ['active', 'achieved', 'missed', 'abandoned'];
+const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['daily', 'weekly', 'monthly', 'yearly'];
+const COUNTDOWN_MODES: CountdownMode[] = ['calendar', 'businessDays', 'workingHours'];
+const GOAL_KINDS: GoalKind[] = ['countdown', 'countUp'];
+
+const isDateString = (value: unknown): boolean =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const isTimeString = (value: unknown): boolean =>
+  typeof value === 'string' && /^\d{2}:\d{2}$/.test(value);
+
+const isTimestamp = (value: unknown): boolean =>
+  typeof value === 'string' && !isNaN(new Date(value).getTime());
+
+const isNonEmptyString = (value: unknown): boolean =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isStringArray = (value: unknown): boolean =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isPositiveNumberArray = (value: unknown): boolean =>
+  Array.isArray(value) && value.every(item => typeof item === 'number' && item > 0);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isTag = (value: unknown): value is Tag =>
+  isObject(value) && isNonEmptyString(value.name) && typeof value.color === 'string';
+
+/**
+ * Check that a record can go through the schema migrations
+ * The migrations read the deadline fields of every record, so records without them
+ * are rejected before migrating rather than failing the whole import
+ * @returns string[] - Problems found, empty when the record can be migrated
+ */
+const getMigrationErrors = (record: unknown): string[] => {
+  if (!isObject(record)) {
+    return ['Entry is not a goal object'];
+  }
+
+  const errors: string[] = [];
+  if (!isDateString(record.deadlineDate)) errors.push('Deadline date must be YYYY-MM-DD');
+  if (!isTimeString(record.deadlineTime)) errors.push('Deadline time must be HH:MM');
+  return errors;
+};
+
+/**
+ * Build a backup document from the full goal list and tag definitions
+ * @param goals - Every stored goal, including archived and trashed ones
+ * @param tags - Tag definitions so colors survive the round trip
+ * @returns BackupDocument - Document ready to be written as JSON
+ */
+export const createBackup = (goals: Goal[], tags: Tag[]): BackupDocument => {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    goals,
+    tags,
+  };
+};
+
+/**
+ * Check a single record against the Goal shape
+ * @param record - Goal record read from a backup
+ * @returns string[] - Problems found, empty when the record is a valid goal
+ */
+export const validateGoalRecord = (record: StoredGoal): string[] => {
+  const errors: string[] = [];
+
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    return ['Entry is not a goal object'];
+  }
+
+  if (!isNonEmptyString(record.id)) errors.push('Missing ID');
+  if (!isNonEmptyString(record.title)) errors.push('Missing title');
+  if (record.description !== undefined && typeof record.description !== 'string') {
+    errors.push('Description must be text');
+  }
+  if (!isDateString(record.deadlineDate)) errors.push('Deadline date must be YYYY-MM-DD');
+  if (!isTimeString(record.deadlineTime)) errors.push('Deadline time must be HH:MM');
+  if (!isTimestamp(record.deadlineAt)) errors.push('Invalid deadline timestamp');
+  if (!isNonEmptyString(record.timeZone)) errors.push('Missing time zone');
+  if (!isTimestamp(record.createdAt)) errors.push('Invalid creation date');
+  if (!GOAL_STATUSES.includes(record.status)) errors.push(`Unknown status "${record.status}"`);
+  if (!isTimestamp(record.statusChangedAt)) errors.push('Invalid status change date');
+
+  if (record.recurrence !== undefined) {
+    if (!record.recurrence || !RECURRENCE_FREQUENCIES.includes(record.recurrence.frequency)) {
+      errors.push('Invalid repeat rule');
+    }
+  }
+
+  if (record.occurrences !== undefined) {
+    const validOccurrences = Array.isArray(record.occurrences) && record.occurrences.every(
+      (occurrence: StoredGoal) =>
+        occurrence &&
+        isTimestamp(occurrence.deadlineAt) &&
+        (occurrence.outcome === 'met' || occurrence.outcome === 'missed')
+    );
+    if (!validOccurrences) errors.push('Invalid occurrence history');
+  }
+
+  if (record.milestones !== undefined) {
+    const validMilestones = Array.isArray(record.milestones) && record.milestones.every(
+      (milestone: StoredGoal) =>
+        milestone &&
+        isNonEmptyString(milestone.id) &&
+        isNonEmptyString(milestone.title) &&
+        isDateString(milestone.deadlineDate) &&
+        isTimeString(milestone.deadlineTime) &&
+        isTimestamp(milestone.deadlineAt) &&
+        typeof milestone.done === 'boolean'
+    );
+    if (!validMilestones) errors.push('Invalid milestones');
+  }
+
+  if (record.tags !== undefined && !isStringArray(record.tags)) errors.push('Tags must be a list of names');
+  if (record.reminderOffsets !== undefined && !isPositiveNumberArray(record.reminderOffsets)) {
+    errors.push('Reminders must be a list of minutes');
+  }
+  if (record.kind !== undefined && !GOAL_KINDS.includes(record.kind)) {
+    errors.push(`Unknown goal kind "${record.kind}"`);
+  }
+  if (record.streaks !== undefined) {
+    const validStreaks = Array.isArray(record.streaks) && record.streaks.every(
+      (streak: StoredGoal) => streak && isTimestamp(streak.startedAt) && isTimestamp(streak.endedAt)
+    );
+    if (!validStreaks) errors.push('Invalid streaks');
+  }
+  if (record.countdownMode !== undefined && !COUNTDOWN_MODES.includes(record.countdownMode)) {
+    errors.push(`Unknown countdown mode "${record.countdownMode}"`);
+  }
+  if (record.startDate !== undefined && !isDateString(record.startDate)) {
+    errors.push('Start date must be YYYY-MM-DD');
+  }
+  if (record.targetValue !== undefined && !(typeof record.targetValue === 'number' && record.targetValue > 0)) {
+    errors.push('Target must be a number greater than zero');
+  }
+  if (record.unit !== undefined && typeof record.unit !== 'string') errors.push('Unit must be text');
+  if (record.progressLog !== undefined) {
+    const validLog = Array.isArray(record.progressLog) && record.progressLog.every(
+      (entry: StoredGoal) =>
+        entry &&
+        isNonEmptyString(entry.id) &&
+        isTimestamp(entry.at) &&
+        typeof entry.value === 'number'
+    );
+    if (!validLog) errors.push('Invalid progress log');
+  }
+  if (record.dependsOn !== undefined && !isStringArray(record.dependsOn)) {
+    errors.push('Dependencies must be a list of goal IDs');
+  }
+  if (record.history !== undefined && !Array.isArray(record.history)) errors.push('Invalid history');
+  if (record.deadlineExtensions !== undefined && !Array.isArray(record.deadlineExtensions)) {
+    errors.push('Invalid deadline extensions');
+  }
+  if (record.archivedAt !== undefined && !isTimestamp(record.archivedAt)) errors.push('Invalid archive date');
+  if (record.deletedAt !== undefined && !isTimestamp(record.deletedAt)) errors.push('Invalid trash date');
+
+  return errors;
+};
+
+/**
+ * Read a backup document, upgrading older goal schemas and validating every goal
+ * Invalid goals are reported rather than failing the whole import
+ * @param json - Contents of the backup file
+ * @returns Promise<ParsedBackup> - Valid goals and tags plus the rejected entries
+ * @throws Error with a user-facing message when the file is not a usable backup
+ */
+export const parseBackup = async (json: string): Promise<ParsedBackup> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  if (!isObject(parsed) || parsed.format !== BACKUP_FORMAT || !Array.isArray(parsed.goals)) {
+    throw new Error('The file is not a Goal Countdown Tracker backup.');
+  }
+  const document = parsed;
+  const goalRecords: unknown[] = parsed.goals;
+  if (typeof document.version !== 'number' || document.version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of the app.');
+  }
+
+  const schemaVersion = typeof document.schemaVersion === 'number' ? document.schemaVersion : 0;
+  if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error('This backup was made by a newer version of the app.');
+  }
+
+  const goals: Goal[] = [];
+  const invalid: InvalidBackupEntry[] = [];
+  const seenIds = new Set<string>();
+
+  // Set aside records the migrations can't read, keeping each record's position in the backup
+  const migratable: { record: StoredGoal; index: number }[] = [];
+  goalRecords.forEach((record, index) => {
+    const errors = getMigrationErrors(record);
+    if (errors.length > 0) {
+      invalid.push({
+        index,
+        title: isObject(record) && typeof record.title === 'string' ? record.title : '',
+        errors,
+      });
+    } else {
+      migratable.push({ record: record as StoredGoal, index });
+    }
+  });
+
+  // Migrate against an empty backend so nothing from this device leaks into the backup
+  const records = await runMigrations(
+    migratable.map(({ record }) => record),
+    schemaVersion,
+    new MemoryStorageAdapter()
+  );
+
+  records.forEach((record, position) => {
+    const { index } = migratable[position];
+    const errors = validateGoalRecord(record);
+    if (errors.length === 0 && seenIds.has(record.id)) {
+      errors.push('Duplicate ID');
+    }
+
+    if (errors.length > 0) {
+      invalid.push({
+        index,
+        title: typeof record?.title === 'string' ? record.title : '',
+        errors,
+      });
+      return;
+    }
+
+    seenIds.add(record.id);
+    // Reminder IDs belong to the device that made the backup
+    goals.push({ ...(record as Goal), notificationIds: [] });
+  });
+
+  const tags: Tag[] = Array.isArray(document.tags) ? document.tags.filter(isTag) : [];
+
+  return {
+    exportedAt: typeof document.exportedAt === 'string' && isTimestamp(document.exportedAt)
+      ? document.exportedAt
+      : '',
+    goals,
+    tags,
+    invalid: invalid.sort((a, b) => a.index - b.index),
+  };
+};
+
+/**
+ * Combine imported goals with the goals already stored
+ * When merging, a backup goal replaces the stored goal with the same ID
+ * @param existing - Goals currently on the device
+ * @param imported - Valid goals read from the backup
+ * @param mode - Merge into the current list or replace it
+ * @returns Goal[] - Goal list to store
+ */
+export const combineGoals = (existing: Goal[], imported: Goal[], mode: ImportMode): Goal[] => {
+  if (mode === 'replace') {
+    return imported;
+  }
+
+  const importedIds = new Set(imported.map(goal => goal.id));
+  return [...existing.filter(goal => !importedIds.has(goal.id)), ...imported];
+};
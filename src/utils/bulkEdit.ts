@@ -0,0 +1,81 @@
+import { Goal } from '../storage/storage';
+import { isSameTag, normalizeTagName } from '../storage/tags';
+import { addDays, normalizeRecurrenceRule } from './recurrence';
+import { zonedTimeToUtc } from './timezone';
+import { isCountUp } from './streaks';
+
+// Changes that can be applied to a whole selection of goals
+export type BulkAction = 'trash' | 'archive' | 'achieve' | 'tag' | 'extend';
+
+// Quick choices when extending a selection's deadlines, in days
+export const BULK_EXTEND_OPTIONS = [1, 3, 7, 14];
+
+/**
+ * Move a goal's deadline by a number of days, keeping the time of day
+ * @param goal - Goal to change
+ * @param days - Days to add
+ * @returns Goal - Goal with the new deadline
+ */
+export const extendDeadline = (goal: Goal, days: number): Goal => {
+  const deadlineDate = addDays(goal.deadlineDate, days);
+  return {
+    ...goal,
+    deadlineDate,
+    deadlineAt: zonedTimeToUtc(deadlineDate, goal.deadlineTime, goal.timeZone).toISOString(),
+    recurrence: goal.recurrence ? normalizeRecurrenceRule(goal.recurrence, deadlineDate) : undefined,
+  };
+};
+
+/**
+ * Add a tag to a goal unless it already has it
+ */
+export const addTag = (goal: Goal, name: string): Goal => {
+  const tags = goal.tags ?? [];
+  if (tags.some(tag => isSameTag(tag, name))) {
+    return goal;
+  }
+  return { ...goal, tags: [...tags, normalizeTagName(name)] };
+};
+
+/**
+ * Check whether a bulk action applies to a goal
+ * Count-up trackers have no deadline to extend - moving their start could put it in the future
+ */
+export const canApplyBulkAction = (goal: Goal, action: BulkAction): boolean => {
+  return !(action === 'extend' && isCountUp(goal));
+};
+
+/**
+ * Apply a bulk action to one goal of the selection
+ * Goals the action doesn't apply to are returned unchanged
+ * @param goal - Goal to change
+ * @param action - Change to make
+ * @param value - Tag name for 'tag', number of days for 'extend'
+ * @returns Goal - The changed goal
+ */
+export const applyBulkAction = (
+  goal: Goal,
+  action: BulkAction,
+  value?: string | number,
+  now: Date = new Date()
+): Goal => {
+  const timestamp = now.toISOString();
+  if (!canApplyBulkAction(goal, action)) {
+    return goal;
+  }
+
+  switch (action) {
+    case 'trash':
+      return { ...goal, deletedAt: timestamp };
+    case 'archive':
+      return { ...goal, archivedAt: timestamp };
+    case 'achieve':
+      return goal.status === 'achieved'
+        ? goal
+        : { ...goal, status: 'achieved', statusChangedAt: timestamp };
+    case 'tag':
+      return addTag(goal, String(value));
+    case 'extend':
+      return extendDeadline(goal, Number(value));
+  }
+};
@@ -0,0 +1,94 @@
+// How often a subscriber wants to hear about the time
+export type ClockResolution = 'second' | 'minute';
+
+type ClockListener = (now: Date) => void;
+
+// Ticks land this long after the second boundary, so timer jitter can't put them in the previous second
+const TICK_OFFSET_MS = 5;
+
+/**
+ * Check whether two instants fall in the same wall-clock minute
+ */
+export const isSameMinute = (a: Date, b: Date): boolean => {
+  return Math.floor(a.getTime() / 60000) === Math.floor(b.getTime() / 60000);
+};
+
+/**
+ * Clock that ticks once per second, on the second boundary, for all its subscribers
+ * Only runs while it has subscribers and isn't paused
+ */
+export class Clock {
+  private listeners = new Set<ClockListener>();
+
+  private timeout: ReturnType<typeof setTimeout> | null = null;
+
+  private paused = false;
+
+  /**
+   * Current time
+   */
+  now(): Date {
+    return new Date();
+  }
+
+  /**
+   * Call a listener on every tick
+   * @param listener - Called with the time of the tick
+   * @returns () => void - Stops the listener
+   */
+  subscribe(listener: ClockListener): () => void {
+    this.listeners.add(listener);
+    this.schedule();
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.cancel();
+      }
+    };
+  }
+
+  /**
+   * Stop ticking, e.g. while the app is in the background
+   */
+  pause(): void {
+    this.paused = true;
+    this.cancel();
+  }
+
+  /**
+   * Tick right away so subscribers catch up with the time that passed, then continue on the second
+   */
+  resume(): void {
+    this.paused = false;
+    this.cancel();
+    this.tick();
+  }
+
+  private tick = (): void => {
+    this.timeout = null;
+    const now = this.now();
+    this.listeners.forEach(listener => listener(now));
+    this.schedule();
+  };
+
+  /**
+   * Schedule the next tick for the next second boundary
+   * Recomputed on every tick, so slow ticks don't add up to drift
+   */
+  private schedule(): void {
+    if (this.paused || this.timeout !== null || this.listeners.size === 0) {
+      return;
+    }
+
+    const untilNextSecond = 1000 - (Date.now() % 1000);
+    this.timeout = setTimeout(this.tick, untilNextSecond + TICK_OFFSET_MS);
+  }
+
+  private cancel(): void {
+    if (this.timeout !== null) {
+      clearTimeout(this.timeout);
+      this.timeout = null;
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import { Goal } from '../storage/storage';
+import { GoalActions } from './goalActions';
+import { getGoalDisplayState } from './goalStatus';
+import { isCountUp } from './streaks';
+
+/**
+ * Check whether a goal still holds up the goals depending on it
+ * Only active goals in the main list block - archived and trashed goals were put aside
+ * Count-up trackers never finish, so they are never offered or waited on
+ */
+const isOpenDependency = (goal: Goal): boolean => {
+  return goal.status === 'active' && !isCountUp(goal) && GoalActions.isListed(goal);
+};
+
+/**
+ * Resolve a goal's dependencies, skipping goals that no longer exist
+ * @param goal - Goal whose dependencies to look up
+ * @param goals - Goals to look the dependencies up in
+ * @returns Goal[] - Dependencies in the order they were added
+ */
+export const getDependencies = (goal: Goal, goals: Goal[]): Goal[] => {
+  return (goal.dependsOn ?? [])
+    .map(id => goals.find(other => other.id === id))
+    .filter((dependency): dependency is Goal => dependency !== undefined);
+};
+
+/**
+ * Dependencies that haven't finished yet
+ */
+export const getOpenDependencies = (goal: Goal, goals: Goal[]): Goal[] => {
+  return getDependencies(goal, goals).filter(isOpenDependency);
+};
+
+/**
+ * Check whether an active goal is waiting on another goal to finish
+ */
+export const isBlocked = (goal: Goal, goals: Goal[]): boolean => {
+  return goal.status === 'active' && getOpenDependencies(goal, goals).length > 0;
+};
+
+/**
+ * Check whether a goal can be worked on now - counting down and not waiting on another goal
+ */
+export const isReadyToWorkOn = (goal: Goal, goals: Goal[]): boolean => {
+  return getGoalDisplayState(goal) === 'active' && !isBlocked(goal, goals);
+};
+
+/**
+ * Check whether letting a goal depend on other goals would make it wait on itself
+ * @param goalId - Goal that gets the dependencies, undefined for a goal not saved yet
+ * @param dependsOn - IDs of the goals it would depend on
+ * @param goals - All goals, to follow their own dependencies
+ * @returns boolean - True when one of the dependencies leads back to the goal
+ */
+export const createsDependencyCycle = (
+  goalId: string | undefined,
+  dependsOn: string[],
+  goals: Goal[]
+): boolean => {
+  // Nothing can depend on a goal that doesn't exist yet
+  if (!goalId) {
+    return false;
+  }
+
+  const goalsById = new Map(goals.map(goal => [goal.id, goal]));
+  const visited = new Set<string>();
+  const pending = [...dependsOn];
+
+  while (pending.length > 0) {
+    const id = pending.pop() as string;
+    if (id === goalId) {
+      return true;
+    }
+    if (visited.has(id)) {
+      continue;
+    }
+    visited.add(id);
+    pending.push(...(goalsById.get(id)?.dependsOn ?? []));
+  }
+
+  return false;
+};
+
+/**
+ * Goals a goal may be set to depend on
+ * Offers other active countdowns in the main list that don't already wait on this goal,
+ * plus the current dependencies so they can be removed
+ * @param goalId - Goal being edited, undefined while creating one
+ * @param dependsOn - Current dependencies
+ * @param goals - All goals
+ * @returns Goal[] - Candidates sorted by deadline
+ */
+export const getDependencyCandidates = (
+  goalId: string | undefined,
+  dependsOn: string[],
+  goals: Goal[]
+): Goal[] => {
+  return goals
+    .filter(goal =>
+      dependsOn.includes(goal.id) ||
+      (goal.id !== goalId && isOpenDependency(goal) && !createsDependencyCycle(goalId, [goal.id], goals))
+    )
+    .sort((a, b) => new Date(a.deadlineAt).getTime() - new Date(b.deadlineAt).getTime());
+};
+
+/**
+ * Dependencies due after a goal's own deadline, which leaves no time to work on the goal
+ * @param deadline - Deadline of the goal
+ * @param dependsOn - IDs of the goals it depends on
+ * @param goals - Goals to look the dependencies up in
+ * @returns Goal[] - Open dependencies with a later deadline
+ */
+export const getDeadlineConflicts = (deadline: Date, dependsOn: string[], goals: Goal[]): Goal[] => {
+  return goals.filter(goal =>
+    dependsOn.includes(goal.id) &&
+    isOpenDependency(goal) &&
+    new Date(goal.deadlineAt).getTime() > deadline.getTime()
+  );
+};
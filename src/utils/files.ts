@@ -0,0 +1,64 @@
+import { Share } from 'react-native';
+import { Directory, File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as DocumentPicker from 'expo-document-picker';
+
+// File type details passed to the share sheet
+export interface SharedFileType {
+  mimeType: string;
+  UTI: string; // iOS uniform type identifier
+}
+
+/**
+ * Write text to a file, replacing any file with the same name
+ * @param directory - Folder to write into, e.g. Paths.document
+ * @param fileName - Name of the file
+ * @param contents - Text to write
+ * @returns File - The written file
+ */
+export const writeTextFile = (directory: Directory, fileName: string, contents: string): File => {
+  const file = new File(directory, fileName);
+  file.create({ overwrite: true });
+  file.write(contents);
+  return file;
+};
+
+/**
+ * Share text as a file through the platform share sheet
+ * Falls back to sharing the raw text where file sharing isn't available
+ * @param fileName - Name the file is shared under
+ * @param contents - Text to share
+ * @param type - MIME type and UTI of the file
+ * @param dialogTitle - Title of the Android share dialog
+ */
+export const shareTextFile = async (
+  fileName: string,
+  contents: string,
+  type: SharedFileType,
+  dialogTitle: string
+): Promise<void> => {
+  if (!(await Sharing.isAvailableAsync())) {
+    await Share.share({ message: contents });
+    return;
+  }
+
+  const file = writeTextFile(Paths.cache, fileName, contents);
+  await Sharing.shareAsync(file.uri, { ...type, dialogTitle });
+};
+
+/**
+ * Let the user pick a file and read it as text
+ * @param types - MIME types offered in the picker
+ * @returns Promise<string | null> - File contents, or null if the user cancelled
+ */
+export const pickTextFile = async (types: string[]): Promise<string | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: types,
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled) {
+    return null;
+  }
+
+  return new File(result.assets[0].uri).text();
+};
@@ -0,0 +1,279 @@
+import { Goal, GoalRepository, GoalStorage } from '../storage/storage';
+import { NotificationManager } from './notifications';
+import { CountdownUtils } from '../components/Countdown';
+import { ImportMode, combineGoals } from './backup';
+import { duplicateGoal } from './templates';
+import { applyCalendarEntry } from './ical';
+
+// Values a bulk change overwrote on one goal, so undo can put back just those fields
+export type GoalFieldsBefore = Pick<Goal, 'id'> & Partial<Goal>;
+
+/**
+ * Previous values of the fields that differ between two versions of a goal
+ * Fields the change added are listed as undefined, so restoring removes them again
+ */
+const getFieldsBefore = (before: Goal, after: Goal): GoalFieldsBefore => {
+  const fields: Record<string, unknown> = { id: before.id };
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]) as Set<keyof Goal>;
+  keys.forEach(key => {
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      fields[key] = before[key];
+    }
+  });
+  return fields as GoalFieldsBefore;
+};
+
+/**
+ * Check whether a goal belongs in the main goal list (not archived or trashed)
+ */
+const isListed = (goal: Goal): boolean => {
+  return !goal.archivedAt && !goal.deletedAt;
+};
+
+/**
+ * Goal actions that touch both storage and scheduled reminders
+ * Shared by every screen that trashes, archives or restores goals
+ * @param goalStorage - Repository the goals are read from and written to
+ */
+export const createGoalActions = (goalStorage: GoalRepository) => {
+  /**
+   * Cancel the reminders of several goals and schedule new ones for those still counting down
+   * Stores the new notification IDs in a single write
+   */
+  const syncReminders = async (goals: Goal[]): Promise<void> => {
+    try {
+      await NotificationManager.cancelNotificationsForGoals(goals.map(goal => goal.id));
+
+      const notificationIds = new Map<string, string[]>();
+      for (const goal of goals) {
+        const isCountingDown =
+          goal.status === 'active' && isListed(goal) && !CountdownUtils.isExpired(goal.deadlineAt);
+        notificationIds.set(
+          goal.id,
+          isCountingDown ? await NotificationManager.scheduleMultipleGoalNotifications(goal) : []
+        );
+      }
+
+      await goalStorage.transaction(existing =>
+        existing.map(goal =>
+          notificationIds.has(goal.id) ? { ...goal, notificationIds: notificationIds.get(goal.id) } : goal
+        )
+      );
+    } catch (notificationError) {
+      console.error('Error updating notifications:', notificationError);
+      // Don't fail the change if notifications fail
+    }
+  };
+
+  return {
+    /**
+     * Move a goal to the trash and cancel its reminders
+     */
+    trash: async (goal: Goal): Promise<boolean> => {
+      await NotificationManager.cancelGoalNotifications(goal.id);
+      return goalStorage.trashGoal(goal.id);
+    },
+
+    /**
+     * Archive a goal and cancel its reminders
+     */
+    archive: async (goal: Goal): Promise<boolean> => {
+      await NotificationManager.cancelGoalNotifications(goal.id);
+      return goalStorage.archiveGoal(goal.id);
+    },
+
+    /**
+     * Restore a goal from the trash or archive
+     * Reminders are rescheduled when the goal is still active and its deadline is in the future
+     */
+    restore: async (goal: Goal): Promise<boolean> => {
+      const success = await goalStorage.restoreGoal(goal.id);
+      if (!success) {
+        return false;
+      }
+
+      if (goal.status === 'active' && !CountdownUtils.isExpired(goal.deadlineAt)) {
+        try {
+          const notificationIds = await NotificationManager.rescheduleGoalNotifications(goal);
+          await goalStorage.updateGoal(goal.id, { notificationIds });
+        } catch (notificationError) {
+          console.error('Error rescheduling notifications:', notificationError);
+          // Don't fail the restore if notifications fail
+        }
+      }
+
+      return true;
+    },
+
+    /**
+     * Save a copy of a goal with its deadline shifted forward and schedule its reminders
+     * @returns Promise<Goal | null> - The saved copy, or null if it couldn't be saved
+     */
+    duplicate: async (goal: Goal): Promise<Goal | null> => {
+      const copy = duplicateGoal(goal, goalStorage.generateId());
+
+      if (!CountdownUtils.isExpired(copy.deadlineAt)) {
+        try {
+          copy.notificationIds = await NotificationManager.scheduleMultipleGoalNotifications(copy);
+        } catch (notificationError) {
+          console.error('Error scheduling notifications:', notificationError);
+          // Don't fail the copy if notifications fail
+        }
+      }
+
+      const success = await goalStorage.saveGoal(copy);
+      if (!success) {
+        await NotificationManager.cancelGoalNotifications(copy.id);
+        return null;
+      }
+      return copy;
+    },
+
+    /**
+     * Delete a goal for good and cancel its reminders
+     */
+    deleteForever: async (goal: Goal): Promise<boolean> => {
+      await NotificationManager.cancelGoalNotifications(goal.id);
+      return goalStorage.deleteGoal(goal.id);
+    },
+
+    /**
+     * Store goals read from a backup and schedule reminders for those still counting down
+     * Reminders of goals that are replaced or dropped are cancelled
+     * @returns Promise<boolean> - Success status
+     */
+    importGoals: async (imported: Goal[], mode: ImportMode): Promise<boolean> => {
+      const importedIds = new Set(imported.map(goal => goal.id));
+      let replacedGoals: Goal[] = [];
+
+      const success = await goalStorage.transaction(existing => {
+        replacedGoals = mode === 'replace'
+          ? existing
+          : existing.filter(goal => importedIds.has(goal.id));
+        return combineGoals(existing, imported, mode);
+      });
+      if (!success) {
+        return false;
+      }
+
+      for (const goal of replacedGoals) {
+        await NotificationManager.cancelGoalNotifications(goal.id);
+      }
+
+      for (const goal of imported) {
+        if (goal.status !== 'active' || !isListed(goal) || CountdownUtils.isExpired(goal.deadlineAt)) {
+          continue;
+        }
+        try {
+          const notificationIds = await NotificationManager.scheduleMultipleGoalNotifications(goal);
+          await goalStorage.updateGoal(goal.id, { notificationIds });
+        } catch (notificationError) {
+          console.error('Error scheduling notifications:', notificationError);
+          // Don't fail the import if notifications fail
+        }
+      }
+
+      return true;
+    },
+
+    /**
+     * Store goals read from a calendar file
+     * Entries for goals that already exist only update the fields a calendar carries,
+     * new entries are added as goals; reminders of every touched goal are rescheduled
+     * @returns Promise<{ added: number; updated: number } | null> - Number of goals added and updated;
+     * null on failure
+     */
+    importCalendar: async (entries: Goal[]): Promise<{ added: number; updated: number } | null> => {
+      const entriesById = new Map(entries.map(entry => [entry.id, entry]));
+      let touchedGoals: Goal[] = [];
+      let updated = 0;
+
+      const success = await goalStorage.transaction(existing => {
+        const existingIds = new Set(existing.map(goal => goal.id));
+        const updatedGoals = existing.map(goal => {
+          const entry = entriesById.get(goal.id);
+          return entry ? applyCalendarEntry(goal, entry) : goal;
+        });
+        const addedGoals = Array.from(entriesById.values()).filter(entry => !existingIds.has(entry.id));
+
+        touchedGoals = [...updatedGoals.filter(goal => entriesById.has(goal.id)), ...addedGoals];
+        updated = touchedGoals.length - addedGoals.length;
+        return [...updatedGoals, ...addedGoals];
+      });
+      if (!success) {
+        return null;
+      }
+
+      await syncReminders(touchedGoals);
+      return { added: touchedGoals.length - updated, updated };
+    },
+
+    /**
+     * Change several goals in one write, then cancel or reschedule their reminders
+     * Goals that are no longer active, listed and counting down lose their reminders
+     * @param goals - Selected goals
+     * @param change - Returns the changed version of a goal
+     * @returns Promise<GoalFieldsBefore[] | null> - The changed fields as they were before, for undo;
+     * null on failure
+     */
+    updateMany: async (
+      goals: Goal[],
+      change: (goal: Goal) => Goal
+    ): Promise<GoalFieldsBefore[] | null> => {
+      const ids = new Set(goals.map(goal => goal.id));
+      let fieldsBefore: GoalFieldsBefore[] = [];
+      let changedGoals: Goal[] = [];
+
+      const success = await goalStorage.transaction(existing => {
+        const previousGoals = existing.filter(goal => ids.has(goal.id));
+        changedGoals = previousGoals.map(change);
+        fieldsBefore = previousGoals.map((goal, i) => getFieldsBefore(goal, changedGoals[i]));
+        const changedById = new Map(changedGoals.map(goal => [goal.id, goal]));
+        return existing.map(goal => changedById.get(goal.id) ?? goal);
+      });
+      if (!success) {
+        return null;
+      }
+
+      await syncReminders(changedGoals);
+      return fieldsBefore;
+    },
+
+    /**
+     * Undo a bulk change by putting back only the fields it overwrote
+     * Edits made to the goals since then are kept
+     * @param fieldsBefore - Fields returned by updateMany
+     * @returns Promise<boolean> - Success status
+     */
+    restoreMany: async (fieldsBefore: GoalFieldsBefore[]): Promise<boolean> => {
+      const fieldsById = new Map(fieldsBefore.map(fields => [fields.id, fields]));
+      let restoredGoals: Goal[] = [];
+
+      const success = await goalStorage.transaction(existing => {
+        const updatedGoals = existing.map(goal => {
+          const fields = fieldsById.get(goal.id);
+          return fields ? { ...goal, ...fields } : goal;
+        });
+        restoredGoals = updatedGoals.filter(goal => fieldsById.has(goal.id));
+        return updatedGoals;
+      });
+      if (!success) {
+        return false;
+      }
+
+      await syncReminders(restoredGoals);
+      return true;
+    },
+
+    /**
+     * Check whether a goal belongs in the main goal list (not archived or trashed)
+     */
+    isListed,
+  };
+};
+
+// Actions a screen can run on goals, see createGoalActions
+export type GoalActionSet = ReturnType<typeof createGoalActions>;
+
+// Goal actions used by the app, on the AsyncStorage-backed goal repository
+export const GoalActions = createGoalActions(GoalStorage);
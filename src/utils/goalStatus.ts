@@ -0,0 +1,52 @@
+import { Goal, GoalStatus } from '../storage/storage';
+import { CountdownUtils } from '../components/Countdown';
+
+/**
+ * State of a goal as shown in the list
+ * 'expired' is an active goal whose deadline has passed and is waiting for an outcome
+ */
+export type GoalDisplayState = 'active' | 'expired' | Exclude<GoalStatus, 'active'>;
+
+/**
+ * Combine the persisted status with the clock to get the state shown to the user
+ * Count-up trackers have no deadline, so they never expire
+ */
+export const getGoalDisplayState = (goal: Goal): GoalDisplayState => {
+  if (goal.status !== 'active') {
+    return goal.status;
+  }
+  if (goal.kind === 'countUp') {
+    return 'active';
+  }
+
+  return CountdownUtils.isExpired(goal.deadlineAt) ? 'expired' : 'active';
+};
+
+/**
+ * Check whether an active goal's deadline has passed without a recorded outcome
+ */
+export const isAwaitingOutcome = (goal: Goal): boolean => {
+  return getGoalDisplayState(goal) === 'expired';
+};
+
+/**
+ * How long an active goal has been past its deadline
+ * @returns number - Milliseconds overdue, 0 for goals that aren't waiting for an outcome
+ */
+export const getTimeOverdue = (goal: Goal, now: Date = new Date()): number => {
+  if (!isAwaitingOutcome(goal)) {
+    return 0;
+  }
+  return Math.max(0, now.getTime() - new Date(goal.deadlineAt).getTime());
+};
+
+/**
+ * Badge label and color for each display state
+ */
+export const GOAL_STATE_BADGES: Record<GoalDisplayState, { label: string; color: string } | null> = {
+  active: null,
+  expired: { label: 'EXPIRED', color: '#FF3B30' },
+  achieved: { label: 'ACHIEVED', color: '#28A745' },
+  missed: { label: 'MISSED', color: '#FF3B30' },
+  abandoned: { label: 'ABANDONED', color: '#6C757D' },
+};
@@ -0,0 +1,253 @@
+import {
+  CountdownMode,
+  DeadlineExtension,
+  FieldChange,
+  Goal,
+  HistoryAction,
+  HistoryEntry,
+  RecurrenceRule,
+  Milestone,
+} from '../storage/storage';
+import { formatReminderOffset } from './reminders';
+import { COUNTDOWN_MODE_LABELS } from './workingTime';
+
+// Fields compared when recording a change, in display order
+// deadlineAt is left out since it follows from the date, time and zone
+const TRACKED_FIELDS: (keyof Goal)[] = [
+  'kind',
+  'title',
+  'description',
+  'deadlineDate',
+  'deadlineTime',
+  'timeZone',
+  'startDate',
+  'status',
+  'recurrence',
+  'milestones',
+  'tags',
+  'reminderOffsets',
+  'countdownMode',
+  'targetValue',
+  'unit',
+  'dependsOn',
+  'archivedAt',
+  'deletedAt',
+];
+
+// Labels for changed fields in the history view
+export const FIELD_LABELS: Record<string, string> = {
+  kind: 'Kind',
+  title: 'Title',
+  description: 'Description',
+  deadlineDate: 'Deadline date',
+  deadlineTime: 'Deadline time',
+  timeZone: 'Time zone',
+  startDate: 'Start date',
+  status: 'Status',
+  recurrence: 'Repeat',
+  milestones: 'Milestones',
+  tags: 'Tags',
+  reminderOffsets: 'Reminders',
+  countdownMode: 'Countdown',
+  targetValue: 'Target',
+  unit: 'Unit',
+  dependsOn: 'Depends on',
+  archivedAt: 'Archived',
+  deletedAt: 'In trash',
+};
+
+// Labels for each kind of history entry
+export const HISTORY_ACTION_LABELS: Record<HistoryAction, string> = {
+  created: 'Created',
+  edited: 'Edited',
+  statusChanged: 'Status changed',
+  rolledOver: 'Moved to next occurrence',
+  streakReset: 'Streak reset',
+  archived: 'Archived',
+  trashed: 'Moved to trash',
+  restored: 'Restored',
+};
+
+const RECURRENCE_LABELS = {
+  daily: 'Every day',
+  weekly: 'Every week',
+  monthly: 'Every month',
+  yearly: 'Every year',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Treat empty strings and lists like missing values, so clearing a field isn't a change
+ */
+const normalizeValue = (value: unknown): unknown => {
+  if (value === '' || (Array.isArray(value) && value.length === 0)) {
+    return undefined;
+  }
+  return value;
+};
+
+/**
+ * Field-level differences between two versions of a goal
+ * @returns FieldChange[] - Changed fields with their old and new values (null when unset)
+ */
+export const diffGoals = (before: Goal, after: Goal): FieldChange[] => {
+  return TRACKED_FIELDS
+    .filter(field =>
+      JSON.stringify(normalizeValue(before[field])) !== JSON.stringify(normalizeValue(after[field]))
+    )
+    .map(field => ({
+      field,
+      before: normalizeValue(before[field]) ?? null,
+      after: normalizeValue(after[field]) ?? null,
+    }));
+};
+
+/**
+ * Pick the kind of history entry for a set of changes
+ */
+const getHistoryAction = (before: Goal, after: Goal, changes: FieldChange[]): HistoryAction => {
+  const hasChanged = (field: string) => changes.some(change => change.field === field);
+
+  if (hasChanged('deletedAt')) {
+    return after.deletedAt ? 'trashed' : 'restored';
+  }
+  if (hasChanged('archivedAt')) {
+    return after.archivedAt ? 'archived' : 'restored';
+  }
+  if (hasChanged('status')) {
+    return 'statusChanged';
+  }
+  if ((after.occurrences?.length ?? 0) > (before.occurrences?.length ?? 0)) {
+    return 'rolledOver';
+  }
+  if ((after.streaks?.length ?? 0) > (before.streaks?.length ?? 0)) {
+    return 'streakReset';
+  }
+  return 'edited';
+};
+
+/**
+ * Start the history of a new goal
+ * Goals that already have a history (e.g. from a backup) keep it
+ */
+export const recordCreation = (goal: Goal, now: Date = new Date()): Goal => {
+  if (goal.history) {
+    return goal;
+  }
+  return { ...goal, history: [{ at: now.toISOString(), action: 'created', changes: [] }] };
+};
+
+/**
+ * Append a history entry for the changes between two versions of a goal
+ * A later deadline is also recorded as an extension, except when a recurring goal
+ * moves on to its next occurrence and for count-up trackers, which have no deadline
+ * @param before - Goal as stored
+ * @param after - Goal about to be stored
+ * @returns Goal - after, with history and extensions updated
+ */
+export const recordChanges = (before: Goal, after: Goal, now: Date = new Date()): Goal => {
+  const changes = diffGoals(before, after);
+  if (changes.length === 0) {
+    return after;
+  }
+
+  const at = now.toISOString();
+  const action = getHistoryAction(before, after, changes);
+  const entry: HistoryEntry = { at, action, changes };
+
+  const isExtension = action !== 'rolledOver' && after.kind !== 'countUp' &&
+    new Date(after.deadlineAt).getTime() > new Date(before.deadlineAt).getTime();
+  const extension: DeadlineExtension = {
+    at,
+    fromDeadlineAt: before.deadlineAt,
+    toDeadlineAt: after.deadlineAt,
+  };
+
+  return {
+    ...after,
+    history: [...(after.history ?? []), entry],
+    deadlineExtensions: isExtension
+      ? [...(after.deadlineExtensions ?? []), extension]
+      : after.deadlineExtensions,
+  };
+};
+
+/**
+ * How far a goal's deadline has slipped
+ * @returns { count, totalMs } - Number of extensions and the total time added
+ */
+export const getDeadlineDrift = (goal: Goal): { count: number; totalMs: number } => {
+  const extensions = goal.deadlineExtensions ?? [];
+  const totalMs = extensions.reduce(
+    (sum, extension) =>
+      sum + new Date(extension.toDeadlineAt).getTime() - new Date(extension.fromDeadlineAt).getTime(),
+    0
+  );
+  return { count: extensions.length, totalMs };
+};
+
+/**
+ * Format an amount of added time, e.g. "+12 days" or "+5 hours"
+ */
+export const formatDriftDuration = (ms: number): string => {
+  if (ms >= DAY_MS) {
+    const days = Math.round(ms / DAY_MS);
+    return `+${days} day${days === 1 ? '' : 's'}`;
+  }
+  const hours = Math.max(1, Math.round(ms / HOUR_MS));
+  return `+${hours} hour${hours === 1 ? '' : 's'}`;
+};
+
+/**
+ * Summary of a goal's deadline drift
+ * @returns string | null - e.g. "Moved 4 times, +12 days total", null if never extended
+ */
+export const describeDeadlineDrift = (goal: Goal): string | null => {
+  const { count, totalMs } = getDeadlineDrift(goal);
+  if (count === 0) {
+    return null;
+  }
+  return `Moved ${count} time${count === 1 ? '' : 's'}, ${formatDriftDuration(totalMs)} total`;
+};
+
+/**
+ * Readable value of a changed field
+ */
+export const formatHistoryValue = (field: string, value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '—';
+  }
+
+  switch (field) {
+    case 'status': {
+      const status = String(value);
+      return status.charAt(0).toUpperCase() + status.slice(1);
+    }
+    case 'tags':
+      return (value as string[]).join(', ');
+    case 'reminderOffsets':
+      return (value as number[]).map(formatReminderOffset).join(', ');
+    case 'dependsOn': {
+      const count = (value as string[]).length;
+      return `${count} ${count === 1 ? 'goal' : 'goals'}`;
+    }
+    case 'milestones': {
+      const milestones = value as Milestone[];
+      const doneCount = milestones.filter(milestone => milestone.done).length;
+      return `${milestones.length} (${doneCount} done)`;
+    }
+    case 'kind':
+      return value === 'countUp' ? 'Count up' : 'Countdown';
+    case 'countdownMode':
+      return COUNTDOWN_MODE_LABELS[value as CountdownMode] ?? String(value);
+    case 'recurrence':
+      return RECURRENCE_LABELS[(value as RecurrenceRule).frequency] ?? 'Repeats';
+    case 'archivedAt':
+    case 'deletedAt':
+      return new Date(String(value)).toLocaleDateString();
+    default:
+      return String(value);
+  }
+};
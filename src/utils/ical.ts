@@ -0,0 +1,589 @@
+import { Goal, GoalStatus, GoalStorage } from '../storage/storage';
+import { Holiday } from '../storage/holidays';
+import { formatReminderOffset, getReminderOffsets } from './reminders';
+import { addDays } from './recurrence';
+import {
+  getDeviceTimeZone,
+  isValidTimeZone,
+  utcToZonedTime,
+  zonedTimeToUtc,
+} from './timezone';
+
+/**
+ * iCalendar (RFC 5545) conversion for goal deadlines
+ * Hand-written serializer and parser covering the subset calendar apps exchange:
+ * VEVENT/VTODO, TZID and UTC date-times, all-day dates, VALARM and line folding
+ */
+
+// Calendar entry type a goal is exported as
+export type CalendarComponent = 'VEVENT' | 'VTODO';
+
+// Result of reading an .ics file
+export interface CalendarImport {
+  goals: Goal[];
+  skipped: number; // Events and tasks without a usable date
+}
+
+// Result of reading holidays from an .ics file
+export interface HolidayImport {
+  holidays: Holiday[];
+  skipped: number; // Events without a usable date
+}
+
+// File type passed to the share sheet for .ics files
+export const CALENDAR_FILE_TYPE = { mimeType: 'text/calendar', UTI: 'public.calendar-event' };
+
+const PRODUCT_ID = '-//Goal Countdown Tracker//EN';
+
+// Suffix of UIDs written by this app, so re-importing updates the same goal
+const UID_SUFFIX = '@countdown-tracker';
+
+// Prefix of goal IDs derived from other apps' UIDs, so importing a file again updates the same goals
+const IMPORTED_ID_PREFIX = 'ical-';
+
+// Non-standard property carrying the goal's time zone next to its UTC deadline
+const TIME_ZONE_PROPERTY = 'X-COUNTDOWN-TIMEZONE';
+
+// All-day entries are due at the end of their day
+const ALL_DAY_DEADLINE_TIME = '23:59';
+
+// Longest event read as a run of holidays, so a stray long event can't block out months
+const MAX_HOLIDAY_DAYS = 31;
+
+// Lines are folded at 75 octets, continuation lines start with a space
+const MAX_LINE_OCTETS = 75;
+
+// A property line such as DTSTART;TZID=Europe/Berlin:20261023T170000
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// A BEGIN/END block with its properties and nested blocks
+interface CalendarNode {
+  name: string;
+  properties: ContentLine[];
+  children: CalendarNode[];
+}
+
+// Wall-clock deadline read from a date property
+interface CalendarDate {
+  date: string; // YYYY-MM-DD format
+  time: string; // HH:MM format (24-hour)
+  timeZone: string;
+}
+
+/**
+ * Escape a TEXT value
+ */
+const escapeText = (value: string): string => {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+/**
+ * Undo TEXT escaping
+ */
+const unescapeText = (value: string): string => {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char
+  );
+};
+
+/**
+ * Split a value on a separator, ignoring separators that are escaped or inside quotes
+ */
+const splitValue = (value: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\' && i + 1 < value.length) {
+      current += char + value[i + 1];
+      i++;
+    } else if (char === '"') {
+      inQuotes = !inQuotes;
+      current += char;
+    } else if (char === separator && !inQuotes) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  parts.push(current);
+  return parts;
+};
+
+/**
+ * Number of UTF-8 bytes a single code point takes
+ */
+const getUtf8Length = (char: string): number => {
+  const codePoint = char.codePointAt(0) ?? 0;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  if (codePoint < 0x10000) return 3;
+  return 4;
+};
+
+/**
+ * Fold a content line so no physical line exceeds 75 octets
+ * Splits between code points so multi-byte characters are never cut in half
+ */
+const foldLine = (line: string): string => {
+  const chunks: string[] = [];
+  let current = '';
+  let currentLength = 0;
+
+  for (const char of line) {
+    const length = getUtf8Length(char);
+    // The leading space of a continuation line counts toward its length
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentLength + length > limit) {
+      chunks.push(current);
+      current = '';
+      currentLength = 0;
+    }
+    current += char;
+    currentLength += length;
+  }
+
+  chunks.push(current);
+  return chunks.join('\r\n ');
+};
+
+/**
+ * Format an ISO timestamp as a UTC DATE-TIME, e.g. 20261023T150000Z
+ */
+const formatUtcDateTime = (isoTimestamp: string): string => {
+  return new Date(isoTimestamp).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+/**
+ * Deadline property for a goal, written in UTC
+ * A TZID would need a VTIMEZONE with the zone's rules, so the zone travels in TIME_ZONE_PROPERTY instead
+ */
+const formatDeadlineProperty = (name: string, goal: Goal): string[] => {
+  return [
+    `${name}:${formatUtcDateTime(goal.deadlineAt)}`,
+    `${TIME_ZONE_PROPERTY}:${goal.timeZone}`,
+  ];
+};
+
+/**
+ * Build the unfolded content lines for one goal
+ */
+const goalToLines = (goal: Goal, component: CalendarComponent, stamp: string): string[] => {
+  const lines = [
+    `BEGIN:${component}`,
+    `UID:${goal.id}${UID_SUFFIX}`,
+    `DTSTAMP:${stamp}`,
+    `CREATED:${formatUtcDateTime(goal.createdAt)}`,
+    `SUMMARY:${escapeText(goal.title)}`,
+  ];
+
+  if (goal.description) {
+    lines.push(`DESCRIPTION:${escapeText(goal.description)}`);
+  }
+  if (goal.tags && goal.tags.length > 0) {
+    lines.push(`CATEGORIES:${goal.tags.map(escapeText).join(',')}`);
+  }
+
+  if (component === 'VEVENT') {
+    lines.push(...formatDeadlineProperty('DTSTART', goal));
+    lines.push(`STATUS:${goal.status === 'abandoned' ? 'CANCELLED' : 'CONFIRMED'}`);
+  } else {
+    lines.push(...formatDeadlineProperty('DUE', goal));
+    if (goal.status === 'achieved') {
+      lines.push('STATUS:COMPLETED');
+      lines.push(`COMPLETED:${formatUtcDateTime(goal.statusChangedAt)}`);
+    } else {
+      lines.push(`STATUS:${goal.status === 'active' ? 'NEEDS-ACTION' : 'CANCELLED'}`);
+    }
+  }
+
+  // Same reminders the app schedules as notifications
+  if (goal.status === 'active') {
+    for (const minutes of getReminderOffsets(goal)) {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${escapeText(`"${goal.title}" deadline is in ${formatReminderOffset(minutes)}`)}`,
+        `TRIGGER:-PT${minutes}M`,
+        'END:VALARM'
+      );
+    }
+  }
+
+  lines.push(`END:${component}`);
+  return lines;
+};
+
+/**
+ * Serialize goals to an iCalendar document
+ * @param goals - Goals to export, one entry each
+ * @param component - Export as calendar events or as tasks
+ * @returns string - .ics file contents with CRLF line endings
+ */
+export const exportCalendar = (goals: Goal[], component: CalendarComponent): string => {
+  const stamp = formatUtcDateTime(new Date().toISOString());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    ...goals.flatMap(goal => goalToLines(goal, component, stamp)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * Parse a single unfolded line into name, parameters and value
+ * The value starts at the first colon outside a quoted parameter value
+ */
+const parseContentLine = (line: string): ContentLine | null => {
+  let inQuotes = false;
+  let colonIndex = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') {
+      inQuotes = !inQuotes;
+    } else if (line[i] === ':' && !inQuotes) {
+      colonIndex = i;
+      break;
+    }
+  }
+  if (colonIndex === -1) {
+    return null;
+  }
+
+  const [name, ...paramParts] = splitValue(line.slice(0, colonIndex), ';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const equalsIndex = part.indexOf('=');
+    if (equalsIndex > 0) {
+      params[part.slice(0, equalsIndex).toUpperCase()] = part.slice(equalsIndex + 1).replace(/^"|"$/g, '');
+    }
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colonIndex + 1) };
+};
+
+/**
+ * Unfold lines and build the BEGIN/END component tree
+ */
+const parseCalendarTree = (text: string): CalendarNode[] => {
+  const lines = text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.trim().length > 0);
+
+  const root: CalendarNode = { name: 'ROOT', properties: [], children: [] };
+  const stack: CalendarNode[] = [root];
+
+  for (const line of lines) {
+    const contentLine = parseContentLine(line);
+    if (!contentLine) {
+      continue;
+    }
+
+    const current = stack[stack.length - 1];
+    if (contentLine.name === 'BEGIN') {
+      const node: CalendarNode = { name: contentLine.value.trim().toUpperCase(), properties: [], children: [] };
+      current.children.push(node);
+      stack.push(node);
+    } else if (contentLine.name === 'END') {
+      if (stack.length > 1) {
+        stack.pop();
+      }
+    } else {
+      current.properties.push(contentLine);
+    }
+  }
+
+  return root.children;
+};
+
+const getProperty = (node: CalendarNode, name: string): ContentLine | undefined => {
+  return node.properties.find(property => property.name === name);
+};
+
+/**
+ * Read a DATE or DATE-TIME property as a wall-clock deadline
+ * UTC values are shown in the fallback zone; unknown TZIDs keep their wall-clock time
+ * @param property - DTSTART, DUE or similar
+ * @param fallbackZone - Zone for floating times, UTC times and unknown TZIDs
+ */
+const parseDateProperty = (property: ContentLine, fallbackZone: string): CalendarDate | null => {
+  const match = property.value
+    .trim()
+    .match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const date = `${year}-${month}-${day}`;
+
+  if (hour === undefined || property.params.VALUE === 'DATE') {
+    return { date, time: ALL_DAY_DEADLINE_TIME, timeZone: fallbackZone };
+  }
+
+  if (utc) {
+    const instant = new Date(`${date}T${hour}:${minute}:${second ?? '00'}Z`);
+    return { ...utcToZonedTime(instant, fallbackZone), timeZone: fallbackZone };
+  }
+
+  // Some producers prefix TZIDs with a slash to mark a global zone name
+  const tzid = property.params.TZID?.replace(/^\//, '');
+  const timeZone = tzid && isValidTimeZone(tzid) ? tzid : fallbackZone;
+  return { date, time: `${hour}:${minute}`, timeZone };
+};
+
+/**
+ * Read an alarm TRIGGER as minutes before the deadline, e.g. -PT15M is 15 and -P1DT2H is 1560
+ * @returns number | null - null for absolute triggers, triggers at or after the deadline,
+ * and triggers relative to an event's end
+ */
+const parseTrigger = (property: ContentLine, component: string): number | null => {
+  if (property.params.VALUE === 'DATE-TIME' || (component === 'VEVENT' && property.params.RELATED === 'END')) {
+    return null;
+  }
+
+  const match = property.value
+    .trim()
+    .toUpperCase()
+    .match(/^-P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, weeks, days, hours, minutes, seconds] = match.map(part => Number(part ?? 0));
+  const total = ((weeks * 7 + days) * 24 + hours) * 60 + minutes + Math.floor(seconds / 60);
+  return total > 0 ? total : null;
+};
+
+/**
+ * Reminder offsets from the VALARMs of an entry
+ * @returns number[] | undefined - Minutes before the deadline, largest first;
+ * undefined when the entry has no usable alarm, so the default reminders apply
+ */
+const parseReminderOffsets = (node: CalendarNode): number[] | undefined => {
+  const offsets = node.children
+    .filter(child => child.name === 'VALARM')
+    .map(alarm => {
+      const trigger = getProperty(alarm, 'TRIGGER');
+      return trigger ? parseTrigger(trigger, node.name) : null;
+    })
+    .filter((minutes): minutes is number => minutes !== null);
+
+  return offsets.length > 0
+    ? Array.from(new Set(offsets)).sort((a, b) => b - a)
+    : undefined;
+};
+
+/**
+ * Map an iCalendar STATUS to the goal lifecycle
+ */
+const parseStatus = (node: CalendarNode): GoalStatus => {
+  const status = getProperty(node, 'STATUS')?.value.trim().toUpperCase();
+  if (status === 'COMPLETED') return 'achieved';
+  if (status === 'CANCELLED') return 'abandoned';
+  return 'active';
+};
+
+/**
+ * Goal ID for an entry's UID
+ * UIDs written by this app map back to their goal, other UIDs to a stable ID derived from them
+ */
+const getGoalIdForUid = (uid: string): string => {
+  if (!uid) {
+    return GoalStorage.generateId();
+  }
+  return uid.endsWith(UID_SUFFIX)
+    ? uid.slice(0, -UID_SUFFIX.length)
+    : `${IMPORTED_ID_PREFIX}${uid}`;
+};
+
+/**
+ * Build a goal from a VEVENT or VTODO
+ * A time zone written by this app's export takes the place of the fallback zone
+ * @returns Goal | null - null when the entry has no usable date
+ */
+const nodeToGoal = (node: CalendarNode, fallbackZone: string): Goal | null => {
+  const goalZone = getProperty(node, TIME_ZONE_PROPERTY)?.value.trim();
+  const timeZone = goalZone && isValidTimeZone(goalZone) ? goalZone : fallbackZone;
+  const dateProperty = node.name === 'VTODO'
+    ? getProperty(node, 'DUE') ?? getProperty(node, 'DTSTART')
+    : getProperty(node, 'DTSTART');
+  const deadline = dateProperty ? parseDateProperty(dateProperty, timeZone) : null;
+  if (!deadline) {
+    return null;
+  }
+
+  const uid = getProperty(node, 'UID')?.value.trim() ?? '';
+  const summary = unescapeText(getProperty(node, 'SUMMARY')?.value ?? '').trim();
+  const description = unescapeText(getProperty(node, 'DESCRIPTION')?.value ?? '').trim();
+  const tags = node.properties
+    .filter(property => property.name === 'CATEGORIES')
+    .flatMap(property => splitValue(property.value, ','))
+    .map(tag => unescapeText(tag).trim())
+    .filter(tag => tag.length > 0);
+
+  const created = getProperty(node, 'CREATED');
+  const createdDate = created ? parseDateProperty(created, 'UTC') : null;
+  const now = new Date().toISOString();
+
+  return {
+    id: getGoalIdForUid(uid),
+    title: summary || 'Untitled event',
+    description: description || undefined,
+    deadlineDate: deadline.date,
+    deadlineTime: deadline.time,
+    deadlineAt: zonedTimeToUtc(deadline.date, deadline.time, deadline.timeZone).toISOString(),
+    timeZone: deadline.timeZone,
+    createdAt: createdDate
+      ? zonedTimeToUtc(createdDate.date, createdDate.time, 'UTC').toISOString()
+      : now,
+    status: parseStatus(node),
+    statusChangedAt: now,
+    tags: tags.length > 0 ? Array.from(new Set(tags)) : undefined,
+    reminderOffsets: parseReminderOffsets(node),
+  };
+};
+
+/**
+ * Copy the fields a calendar entry carries onto a goal that already exists
+ * Everything else - history, milestones, recurrence, progress, status, archive and trash state - is kept
+ * @param goal - Stored goal with the entry's ID
+ * @param entry - Goal read from the calendar
+ * @returns Goal - The stored goal with the entry's title, description, deadline, tags and reminders
+ */
+export const applyCalendarEntry = (goal: Goal, entry: Goal): Goal => ({
+  ...goal,
+  title: entry.title,
+  description: entry.description,
+  deadlineDate: entry.deadlineDate,
+  deadlineTime: entry.deadlineTime,
+  deadlineAt: entry.deadlineAt,
+  timeZone: entry.timeZone,
+  tags: entry.tags,
+  // Closed goals are exported without alarms, so an entry without any keeps the goal's reminders
+  reminderOffsets: entry.reminderOffsets ?? goal.reminderOffsets,
+});
+
+/**
+ * Get the VCALENDAR blocks of a document
+ * @throws Error with a user-facing message when the text is not an iCalendar file
+ */
+const getCalendars = (text: string): CalendarNode[] => {
+  const calendars = parseCalendarTree(text).filter(node => node.name === 'VCALENDAR');
+  if (calendars.length === 0) {
+    throw new Error('The file is not an iCalendar (.ics) file.');
+  }
+  return calendars;
+};
+
+/**
+ * Read goals from an iCalendar document
+ * Events use DTSTART as the deadline, tasks use DUE (or DTSTART when there is no DUE)
+ * Alarms set before the deadline become the goal's reminders
+ * @param text - .ics file contents
+ * @returns CalendarImport - Goals built from the entries plus the number skipped
+ * @throws Error with a user-facing message when the text is not an iCalendar file
+ */
+export const parseCalendar = (text: string): CalendarImport => {
+  const calendars = getCalendars(text);
+  const goals: Goal[] = [];
+  let skipped = 0;
+
+  for (const calendar of calendars) {
+    // Calendar-wide zone some apps use for floating times
+    const calendarZone = getProperty(calendar, 'X-WR-TIMEZONE')?.value.trim();
+    const fallbackZone = calendarZone && isValidTimeZone(calendarZone)
+      ? calendarZone
+      : getDeviceTimeZone();
+
+    for (const node of calendar.children) {
+      if (node.name !== 'VEVENT' && node.name !== 'VTODO') {
+        continue;
+      }
+
+      const goal = nodeToGoal(node, fallbackZone);
+      if (goal) {
+        goals.push(goal);
+      } else {
+        skipped++;
+      }
+    }
+  }
+
+  return { goals, skipped };
+};
+
+/**
+ * Read holidays from an iCalendar document, such as a public holiday calendar
+ * Every day an event covers becomes a holiday named after the event;
+ * all-day events end the day before their DTEND, as the standard defines
+ * @param text - .ics file contents
+ * @returns HolidayImport - Holidays sorted by date plus the number of events skipped
+ * @throws Error with a user-facing message when the text is not an iCalendar file
+ */
+export const parseHolidays = (text: string): HolidayImport => {
+  // Holiday dates are read as they fall in the device's zone
+  const fallbackZone = getDeviceTimeZone();
+  const holidaysByDate = new Map<string, Holiday>();
+  let skipped = 0;
+
+  for (const calendar of getCalendars(text)) {
+    for (const node of calendar.children) {
+      if (node.name !== 'VEVENT') {
+        continue;
+      }
+
+      const startProperty = getProperty(node, 'DTSTART');
+      const start = startProperty ? parseDateProperty(startProperty, fallbackZone) : null;
+      if (!start) {
+        skipped++;
+        continue;
+      }
+
+      const endProperty = getProperty(node, 'DTEND');
+      const end = endProperty ? parseDateProperty(endProperty, fallbackZone) : null;
+      const isAllDay = startProperty?.params.VALUE === 'DATE' || !/T/.test(startProperty?.value ?? '');
+      const lastDate = end && end.date > start.date
+        ? (isAllDay ? addDays(end.date, -1) : end.date)
+        : start.date;
+
+      const name = unescapeText(getProperty(node, 'SUMMARY')?.value ?? '').trim() || 'Holiday';
+      let date = start.date;
+      for (let day = 0; day < MAX_HOLIDAY_DAYS && date <= lastDate; day++) {
+        holidaysByDate.set(date, { date, name });
+        date = addDays(date, 1);
+      }
+    }
+  }
+
+  const holidays = Array.from(holidaysByDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+  return { holidays, skipped };
+};
+
+/**
+ * File name for an exported calendar, based on the goal title for single goals
+ */
+export const getCalendarFileName = (goals: Goal[]): string => {
+  if (goals.length !== 1) {
+    return 'goals.ics';
+  }
+  const slug = goals[0].title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'goal'}.ics`;
+};
@@ -0,0 +1,56 @@
+import { Goal, Milestone } from '../storage/storage';
+import { MilestoneFormValues } from './validation';
+import { zonedTimeToUtc } from './timezone';
+
+/**
+ * Convert milestone form rows into stored milestones
+ * Deadlines are resolved in the goal's time zone, list order is kept as entered
+ * @param milestones - Milestone rows from the goal form
+ * @param timeZone - IANA time zone of the goal
+ * @returns Milestone[] - Milestones ready to be stored on the goal
+ */
+export const buildMilestones = (milestones: MilestoneFormValues[], timeZone: string): Milestone[] => {
+  return milestones.map(milestone => ({
+    id: milestone.id,
+    title: milestone.title.trim(),
+    deadlineDate: milestone.deadlineDate,
+    deadlineTime: milestone.deadlineTime,
+    deadlineAt: zonedTimeToUtc(milestone.deadlineDate, milestone.deadlineTime, timeZone).toISOString(),
+    done: milestone.done,
+  }));
+};
+
+/**
+ * Convert stored milestones back into editable form rows
+ */
+export const toMilestoneFormValues = (milestones: Milestone[] = []): MilestoneFormValues[] => {
+  return milestones.map(({ id, title, deadlineDate, deadlineTime, done }) => ({
+    id,
+    title,
+    deadlineDate,
+    deadlineTime,
+    done,
+  }));
+};
+
+/**
+ * Get the first milestone in the list that isn't done yet
+ * @returns Milestone | null - Next open milestone, or null when all are done
+ */
+export const getNextOpenMilestone = (goal: Goal): Milestone | null => {
+  return (goal.milestones ?? []).find(milestone => !milestone.done) ?? null;
+};
+
+/**
+ * Get the share of milestones completed
+ * @returns number | null - Percentage (0-100), or null for goals without milestones
+ */
+export const getMilestoneProgress = (goal: Goal): number | null => {
+  const milestones = goal.milestones ?? [];
+  if (milestones.length === 0) {
+    return null;
+  }
+
+  const doneCount = milestones.filter(milestone => milestone.done).length;
+  return (doneCount / milestones.length) * 100;
+};
@@ -1,6 +1,7 @@
 import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
 import { Goal } from '../storage/storage';
+import { formatReminderOffset, getReminderOffsets } from './reminders';
 
 // Configure notification behavior
 Notifications.setNotificationHandler({
@@ -61,11 +62,9 @@ export class NotificationManager {
         return null;
       }
 
-      // Calculate notification time (1 hour before deadline)
-      const [year, month, day] = goal.deadlineDate.split('-').map(Number);
-      const [hour, minute] = goal.deadlineTime.split(':').map(Number);
-      const deadline = new Date(year, month - 1, day, hour, minute, 0, 0);
-      
+      // Deadline is stored as an absolute instant, independent of the device's zone
+      const deadline = new Date(goal.deadlineAt);
+
       // Schedule notification 1 hour before deadline
       const notificationTime = new Date(deadline.getTime() - 60 * 60 * 1000);
       const now = new Date();
@@ -85,11 +84,14 @@ export class NotificationManager {
             goalTitle: goal.title,
             deadlineDate: goal.deadlineDate,
             deadlineTime: goal.deadlineTime,
+            deadlineAt: goal.deadlineAt,
+            timeZone: goal.timeZone,
           },
           sound: true,
           priority: Notifications.AndroidNotificationPriority.HIGH,
         },
         trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
           date: notificationTime,
         },
       });
@@ -103,7 +105,8 @@ export class NotificationManager {
   }
 
   /**
-   * Schedule multiple notifications for a goal (1 hour, 30 minutes, 5 minutes before)
+   * Schedule multiple notifications for a goal, one per reminder offset
+   * (1 hour, 30 minutes and 5 minutes before by default)
    */
   static async scheduleMultipleGoalNotifications(goal: Goal): Promise<string[]> {
     try {
@@ -112,38 +115,34 @@ export class NotificationManager {
         return [];
       }
 
-      const [year, month, day] = goal.deadlineDate.split('-').map(Number);
-      const [hour, minute] = goal.deadlineTime.split(':').map(Number);
-      const deadline = new Date(year, month - 1, day, hour, minute, 0, 0);
+      const deadline = new Date(goal.deadlineAt);
       const now = new Date();
 
       const notificationIds: string[] = [];
-      const intervals = [
-        { minutes: 60, message: '1 hour' },
-        { minutes: 30, message: '30 minutes' },
-        { minutes: 5, message: '5 minutes' },
-      ];
 
-      for (const interval of intervals) {
-        const notificationTime = new Date(deadline.getTime() - interval.minutes * 60 * 1000);
+      for (const minutes of getReminderOffsets(goal)) {
+        const notificationTime = new Date(deadline.getTime() - minutes * 60 * 1000);
         
         // Only schedule if notification time is in the future
         if (notificationTime > now) {
           const notificationId = await Notifications.scheduleNotificationAsync({
             content: {
               title: 'Goal Deadline Approaching!',
-              body: `"${goal.title}" deadline is in ${interval.message}`,
+              body: `"${goal.title}" deadline is in ${formatReminderOffset(minutes)}`,
               data: {
                 goalId: goal.id,
                 goalTitle: goal.title,
                 deadlineDate: goal.deadlineDate,
                 deadlineTime: goal.deadlineTime,
-                interval: interval.minutes,
+                deadlineAt: goal.deadlineAt,
+                timeZone: goal.timeZone,
+                interval: minutes,
               },
               sound: true,
               priority: Notifications.AndroidNotificationPriority.HIGH,
             },
             trigger: {
+              type: Notifications.SchedulableTriggerInputTypes.DATE,
               date: notificationTime,
             },
           });
@@ -222,6 +221,29 @@ export class NotificationManager {
     }
   }
 
+  /**
+   * Cancel all notifications for several goals, reading the schedule once
+   */
+  static async cancelNotificationsForGoals(goalIds: string[]): Promise<boolean> {
+    try {
+      const ids = new Set(goalIds);
+      const scheduledNotifications = await this.getScheduledNotifications();
+      const goalNotifications = scheduledNotifications.filter(
+        notification => ids.has(notification.content.data?.goalId as string)
+      );
+
+      for (const notification of goalNotifications) {
+        await this.cancelNotification(notification.identifier);
+      }
+
+      console.log(`Cancelled ${goalNotifications.length} notifications for ${ids.size} goals`);
+      return true;
+    } catch (error) {
+      console.error('Error cancelling goal notifications:', error);
+      return false;
+    }
+  }
+
   /**
    * Reschedule notifications for a goal (useful when goal is updated)
    */
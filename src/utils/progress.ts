@@ -0,0 +1,136 @@
+import { Goal, ProgressEntry } from '../storage/storage';
+import { zonedTimeToUtc } from './timezone';
+
+export type PaceStatus = 'ahead' | 'onTrack' | 'behind';
+
+// How far a quantitative goal is compared to where it should be by now
+export interface Pace {
+  status: PaceStatus;
+  expected: number; // Amount that should be done by now at an even pace
+  requiredPerDay: number | null; // Amount per day still needed, null once the deadline passed
+}
+
+export const PACE_LABELS: Record<PaceStatus, string> = {
+  ahead: 'Ahead',
+  onTrack: 'On track',
+  behind: 'Behind',
+};
+
+export const PACE_COLORS: Record<PaceStatus, string> = {
+  ahead: '#28A745',
+  onTrack: '#007AFF',
+  behind: '#FF9500',
+};
+
+// Share of the target progress may differ from the even pace and still count as on track
+const ON_TRACK_TOLERANCE = 0.05;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * When the time towards a goal starts counting - its start date, or when it was created
+ * Recurring goals count from the deadline of their previous occurrence
+ * @returns string - ISO timestamp
+ */
+export const getGoalStartAt = (goal: Goal): string => {
+  const occurrences = goal.occurrences ?? [];
+  if (occurrences.length > 0) {
+    return occurrences[occurrences.length - 1].deadlineAt;
+  }
+
+  return goal.startDate
+    ? zonedTimeToUtc(goal.startDate, '00:00', goal.timeZone).toISOString()
+    : goal.createdAt;
+};
+
+/**
+ * Check whether a goal has a numeric target
+ */
+export const isQuantitativeGoal = (goal: Goal): boolean => {
+  return typeof goal.targetValue === 'number' && goal.targetValue > 0;
+};
+
+/**
+ * Total of all logged progress
+ */
+export const getProgressTotal = (goal: Goal): number => {
+  return (goal.progressLog ?? []).reduce((sum, entry) => sum + entry.value, 0);
+};
+
+/**
+ * Append a progress entry to a goal's log
+ * @param goal - Quantitative goal
+ * @param value - Amount to add, negative to correct
+ * @returns ProgressEntry[] - The new log, oldest first
+ */
+export const addProgressEntry = (goal: Goal, value: number, now: Date = new Date()): ProgressEntry[] => {
+  const entry: ProgressEntry = {
+    id: now.getTime().toString() + Math.random().toString(36).substr(2, 9),
+    at: now.toISOString(),
+    value,
+  };
+  return [...(goal.progressLog ?? []), entry];
+};
+
+/**
+ * Compare progress with the time elapsed between the start and the deadline
+ * @param goal - Quantitative goal
+ * @returns Pace | null - Pace of the goal, null for goals without a target
+ */
+export const getPace = (goal: Goal, now: Date = new Date()): Pace | null => {
+  if (!isQuantitativeGoal(goal)) {
+    return null;
+  }
+
+  const target = goal.targetValue as number;
+  const total = getProgressTotal(goal);
+  const start = new Date(getGoalStartAt(goal)).getTime();
+  const deadline = new Date(goal.deadlineAt).getTime();
+  const elapsedShare = deadline > start
+    ? Math.min(1, Math.max(0, (now.getTime() - start) / (deadline - start)))
+    : 1;
+  const expected = target * elapsedShare;
+  const remaining = Math.max(0, target - total);
+
+  let status: PaceStatus = 'onTrack';
+  if (total >= target || total - expected > target * ON_TRACK_TOLERANCE) {
+    status = 'ahead';
+  } else if (expected - total > target * ON_TRACK_TOLERANCE) {
+    status = 'behind';
+  }
+
+  const msLeft = deadline - now.getTime();
+  return {
+    status,
+    expected,
+    // At least a day, so the last hours before the deadline don't show huge rates
+    requiredPerDay: msLeft > 0 ? remaining / Math.max(1, msLeft / DAY_MS) : null,
+  };
+};
+
+/**
+ * Format an amount with its unit, e.g. "12.5 km"
+ * Shows at most two decimals
+ */
+export const formatQuantity = (value: number, unit?: string): string => {
+  const rounded = Math.round(value * 100) / 100;
+  return unit ? `${rounded} ${unit}` : `${rounded}`;
+};
+
+/**
+ * Progress against the target, e.g. "12 / 24 books"
+ */
+export const describeProgress = (goal: Goal): string => {
+  return `${formatQuantity(getProgressTotal(goal))} / ${formatQuantity(goal.targetValue ?? 0, goal.unit)}`;
+};
+
+/**
+ * Rate still needed to reach the target, e.g. "1.5 km/day to finish"
+ * @returns string | null - null when the target is reached or the deadline passed
+ */
+export const describeRequiredRate = (goal: Goal, pace: Pace): string | null => {
+  if (pace.requiredPerDay === null || pace.requiredPerDay <= 0) {
+    return null;
+  }
+  return `${formatQuantity(pace.requiredPerDay, goal.unit)}/day to finish`;
+};
@@ -0,0 +1,214 @@
+import { Goal, OccurrenceRecord, RecurrenceRule } from '../storage/storage';
+import { zonedTimeToUtc } from './timezone';
+
+export const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTH_NAMES = [
+  'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
+  'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec',
+];
+
+/**
+ * Parse a YYYY-MM-DD string into its numeric parts
+ */
+const parseDate = (date: string): { year: number; month: number; day: number } => {
+  const [year, month, day] = date.split('-').map(Number);
+  return { year, month, day };
+};
+
+/**
+ * Format numeric date parts as YYYY-MM-DD
+ */
+const formatDate = (year: number, month: number, day: number): string => {
+  return `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Number of days in a month (month is 1-indexed)
+ */
+const getDaysInMonth = (year: number, month: number): number => {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+};
+
+/**
+ * Day of the week for a calendar date, 0 (Sunday) to 6 (Saturday)
+ * Calendar dates carry no zone, so the calculation is done in UTC
+ */
+const getWeekday = (year: number, month: number, day: number): number => {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+/**
+ * Add a number of days to a calendar date
+ */
+export const addDays = (date: string, days: number): string => {
+  const { year, month, day } = parseDate(date);
+  const next = new Date(Date.UTC(year, month - 1, day + days));
+  return formatDate(next.getUTCFullYear(), next.getUTCMonth() + 1, next.getUTCDate());
+};
+
+/**
+ * Whole days from one calendar date to another, negative if `to` is earlier
+ */
+export const getDaysBetween = (from: string, to: string): number => {
+  const start = parseDate(from);
+  const end = parseDate(to);
+  return Math.round(
+    (Date.UTC(end.year, end.month - 1, end.day) - Date.UTC(start.year, start.month - 1, start.day)) /
+      (24 * 60 * 60 * 1000)
+  );
+};
+
+/**
+ * Last Monday-to-Friday day of a month
+ */
+const getLastWeekdayOfMonth = (year: number, month: number): number => {
+  let day = getDaysInMonth(year, month);
+  while (getWeekday(year, month, day) === 0 || getWeekday(year, month, day) === 6) {
+    day--;
+  }
+  return day;
+};
+
+/**
+ * Fill in the parts of a rule that are derived from the first deadline
+ * Weekly rules default to the deadline's weekday, monthly and yearly rules
+ * remember the day of month so that the 31st doesn't drift after a short month
+ * @param rule - Rule as picked in the form
+ * @param deadlineDate - First deadline, YYYY-MM-DD format
+ * @returns RecurrenceRule - Rule ready to be stored on the goal
+ */
+export const normalizeRecurrenceRule = (rule: RecurrenceRule, deadlineDate: string): RecurrenceRule => {
+  const { year, month, day } = parseDate(deadlineDate);
+
+  switch (rule.frequency) {
+    case 'weekly':
+      return {
+        frequency: 'weekly',
+        weekdays: rule.weekdays && rule.weekdays.length > 0
+          ? [...rule.weekdays].sort((a, b) => a - b)
+          : [getWeekday(year, month, day)],
+      };
+    case 'monthly':
+      return rule.monthlyMode === 'lastWeekday'
+        ? { frequency: 'monthly', monthlyMode: 'lastWeekday' }
+        : { frequency: 'monthly', monthlyMode: 'dayOfMonth', dayOfMonth: day };
+    case 'yearly':
+      return { frequency: 'yearly', dayOfMonth: day };
+    case 'daily':
+    default:
+      return { frequency: 'daily' };
+  }
+};
+
+/**
+ * Get the calendar date of the occurrence following a given date
+ * @param rule - Recurrence rule of the goal
+ * @param date - Current occurrence, YYYY-MM-DD format
+ * @returns string - Next occurrence, YYYY-MM-DD format
+ */
+export const getNextOccurrenceDate = (rule: RecurrenceRule, date: string): string => {
+  const { year, month, day } = parseDate(date);
+
+  switch (rule.frequency) {
+    case 'weekly': {
+      const weekdays = rule.weekdays && rule.weekdays.length > 0
+        ? rule.weekdays
+        : [getWeekday(year, month, day)];
+
+      // Walk forward at most a week to the next selected weekday
+      for (let offset = 1; offset <= 7; offset++) {
+        const candidate = addDays(date, offset);
+        const parts = parseDate(candidate);
+        if (weekdays.includes(getWeekday(parts.year, parts.month, parts.day))) {
+          return candidate;
+        }
+      }
+      return addDays(date, 7);
+    }
+    case 'monthly': {
+      const nextYear = month === 12 ? year + 1 : year;
+      const nextMonth = month === 12 ? 1 : month + 1;
+
+      if (rule.monthlyMode === 'lastWeekday') {
+        return formatDate(nextYear, nextMonth, getLastWeekdayOfMonth(nextYear, nextMonth));
+      }
+
+      const targetDay = Math.min(rule.dayOfMonth ?? day, getDaysInMonth(nextYear, nextMonth));
+      return formatDate(nextYear, nextMonth, targetDay);
+    }
+    case 'yearly': {
+      const targetDay = Math.min(rule.dayOfMonth ?? day, getDaysInMonth(year + 1, month));
+      return formatDate(year + 1, month, targetDay);
+    }
+    case 'daily':
+    default:
+      return addDays(date, 1);
+  }
+};
+
+/**
+ * Close the current occurrence of a recurring goal and roll to the next one
+ * Occurrences that already passed while the app wasn't running are recorded as missed
+ * @param goal - Recurring goal to advance
+ * @param outcome - Outcome of the current occurrence
+ * @param now - Reference time, defaults to the current time
+ * @returns Goal - Goal moved to its next upcoming occurrence
+ */
+export const advanceRecurringGoal = (
+  goal: Goal,
+  outcome: OccurrenceRecord['outcome'],
+  now: Date = new Date()
+): Goal => {
+  if (!goal.recurrence) {
+    return goal;
+  }
+
+  const recordedAt = now.toISOString();
+  const occurrences: OccurrenceRecord[] = [
+    ...(goal.occurrences ?? []),
+    { deadlineAt: goal.deadlineAt, outcome, recordedAt },
+  ];
+
+  let deadlineDate = goal.deadlineDate;
+  let deadline: Date;
+
+  do {
+    deadlineDate = getNextOccurrenceDate(goal.recurrence, deadlineDate);
+    deadline = zonedTimeToUtc(deadlineDate, goal.deadlineTime, goal.timeZone);
+
+    if (deadline <= now) {
+      occurrences.push({ deadlineAt: deadline.toISOString(), outcome: 'missed', recordedAt });
+    }
+  } while (deadline <= now);
+
+  return {
+    ...goal,
+    deadlineDate,
+    deadlineAt: deadline.toISOString(),
+    occurrences,
+  };
+};
+
+/**
+ * Human readable summary of a recurrence rule
+ * @returns string - e.g. "Every week on Fri"
+ */
+export const describeRecurrence = (rule: RecurrenceRule, deadlineDate: string): string => {
+  const { month, day } = parseDate(deadlineDate);
+
+  switch (rule.frequency) {
+    case 'weekly': {
+      const weekdays = (rule.weekdays ?? []).map(weekday => WEEKDAY_NAMES[weekday]);
+      return weekdays.length > 0 ? `Every week on ${weekdays.join(', ')}` : 'Every week';
+    }
+    case 'monthly':
+      return rule.monthlyMode === 'lastWeekday'
+        ? 'Every month on the last weekday'
+        : `Every month on day ${rule.dayOfMonth ?? day}`;
+    case 'yearly':
+      return `Every year on ${MONTH_NAMES[month - 1]} ${rule.dayOfMonth ?? day}`;
+    case 'daily':
+    default:
+      return 'Every day';
+  }
+};
@@ -0,0 +1,35 @@
+import { Goal } from '../storage/storage';
+
+// Minutes before the deadline that reminders go out, unless a goal sets its own
+export const DEFAULT_REMINDER_OFFSETS = [60, 30, 5];
+
+// Reminder offsets offered in the goal form, in minutes
+export const REMINDER_OPTIONS = [5, 15, 30, 60, 120, 1440];
+
+/**
+ * Reminder offsets of a goal, also exported as calendar alarms
+ * Count-up trackers have no deadline to remind about
+ * @returns number[] - Minutes before the deadline, largest first
+ */
+export const getReminderOffsets = (goal: Goal): number[] => {
+  if (goal.kind === 'countUp') {
+    return [];
+  }
+  const offsets = goal.reminderOffsets ?? DEFAULT_REMINDER_OFFSETS;
+  return [...offsets].sort((a, b) => b - a);
+};
+
+/**
+ * Readable reminder offset, e.g. "1 hour" or "30 minutes"
+ */
+export const formatReminderOffset = (minutes: number): string => {
+  if (minutes % 1440 === 0) {
+    const days = minutes / 1440;
+    return `${days} day${days === 1 ? '' : 's'}`;
+  }
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `${hours} hour${hours === 1 ? '' : 's'}`;
+  }
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
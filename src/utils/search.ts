@@ -0,0 +1,102 @@
+import { Goal } from '../storage/storage';
+
+// Part of a text that matched the search, as [start, end) indexes into the original text
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Fold one character for matching: lower case without accents
+ * Combining marks fold to an empty string
+ */
+const foldCharacter = (char: string): string => {
+  return char.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+};
+
+/**
+ * Letters and digits make up words, anything else separates them
+ */
+const isWordCharacter = (char: string): boolean => {
+  return /[0-9]/.test(char) || char.toLowerCase() !== char.toUpperCase();
+};
+
+/**
+ * Fold a text for case- and accent-insensitive matching
+ * @returns { folded, indexes } - Folded text, and for each folded character the index
+ * of the original character it came from
+ */
+const foldText = (text: string): { folded: string; indexes: number[] } => {
+  let folded = '';
+  const indexes: number[] = [];
+
+  Array.from(text).reduce((offset, char) => {
+    const foldedChar = foldCharacter(char);
+    for (let i = 0; i < foldedChar.length; i++) {
+      indexes.push(offset);
+    }
+    folded += foldedChar;
+    return offset + char.length;
+  }, 0);
+
+  return { folded, indexes };
+};
+
+/**
+ * Split a search query into folded terms
+ * @returns string[] - Terms to match, empty for a blank query
+ */
+export const getSearchTerms = (query: string): string[] => {
+  return foldText(query).folded.split(/\s+/).filter(term => term.length > 0);
+};
+
+/**
+ * Find where words of a text start with any of the terms
+ * Matching ignores case and accents, so "cafe" finds "Café"
+ * @param text - Text to search in
+ * @param terms - Terms from getSearchTerms
+ * @returns TextRange[] - Matched ranges in the original text, in order
+ */
+export const findMatches = (text: string, terms: string[]): TextRange[] => {
+  if (terms.length === 0 || !text) {
+    return [];
+  }
+
+  const { folded, indexes } = foldText(text);
+  const ranges: TextRange[] = [];
+
+  for (let i = 0; i < folded.length; i++) {
+    const isWordStart = isWordCharacter(folded[i]) && (i === 0 || !isWordCharacter(folded[i - 1]));
+    if (!isWordStart) {
+      continue;
+    }
+
+    // Longest term wins when several start here
+    const term = terms
+      .filter(candidate => folded.startsWith(candidate, i))
+      .sort((a, b) => b.length - a.length)[0];
+    if (term) {
+      // End where the next character starts, so trailing accent marks are included
+      const nextIndex = i + term.length;
+      ranges.push({
+        start: indexes[i],
+        end: nextIndex < indexes.length ? indexes[nextIndex] : text.length,
+      });
+      i = nextIndex - 1;
+    }
+  }
+
+  return ranges;
+};
+
+/**
+ * Check whether a goal matches a search
+ * Every term has to start a word in the title, description or tags
+ * @param goal - Goal to check
+ * @param terms - Terms from getSearchTerms
+ * @returns boolean - True when all terms match, or there are no terms
+ */
+export const matchesSearch = (goal: Goal, terms: string[]): boolean => {
+  const fields = [goal.title, goal.description ?? '', ...(goal.tags ?? [])];
+  return terms.every(term => fields.some(field => findMatches(field, [term]).length > 0));
+};
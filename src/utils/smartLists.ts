@@ -0,0 +1,64 @@
+import { Goal } from '../storage/storage';
+import { DeadlineWindow, GoalListView } from '../storage/smartLists';
+import { getDeviceTimeZone, utcToZonedTime } from './timezone';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Deadline windows offered on the goal list, in display order
+export const DEADLINE_WINDOW_OPTIONS: { value: DeadlineWindow; label: string }[] = [
+  { value: 'any', label: 'Any time' },
+  { value: 'overdue', label: 'Overdue' },
+  { value: 'today', label: 'Today' },
+  { value: 'next7Days', label: 'Next 7 days' },
+  { value: 'next30Days', label: 'Next 30 days' },
+];
+
+/**
+ * Check whether a goal's deadline falls in a window
+ * "Today" is the current calendar day in the device's time zone, the other windows
+ * count from now. Count-up trackers have no deadline and only match "Any time"
+ * @param goal - Goal to check
+ * @param window - Deadline window of the list view
+ * @returns boolean - True when the deadline is inside the window
+ */
+export const matchesDeadlineWindow = (
+  goal: Goal,
+  window: DeadlineWindow,
+  now: Date = new Date()
+): boolean => {
+  if (goal.kind === 'countUp') {
+    return window === 'any';
+  }
+
+  const deadline = new Date(goal.deadlineAt);
+  const untilDeadline = deadline.getTime() - now.getTime();
+
+  switch (window) {
+    case 'any':
+      return true;
+    case 'overdue':
+      return untilDeadline <= 0;
+    case 'today': {
+      const deviceTimeZone = getDeviceTimeZone();
+      return utcToZonedTime(deadline, deviceTimeZone).date === utcToZonedTime(now, deviceTimeZone).date;
+    }
+    case 'next7Days':
+      return untilDeadline > 0 && untilDeadline <= 7 * DAY_MS;
+    case 'next30Days':
+      return untilDeadline > 0 && untilDeadline <= 30 * DAY_MS;
+  }
+};
+
+/**
+ * Check whether two list views show the same goals in the same order
+ * Tag order doesn't matter
+ */
+export const isSameListView = (a: GoalListView, b: GoalListView): boolean => {
+  const sortedTags = (view: GoalListView) => [...view.tags].sort().join('\n');
+  return (
+    a.sortBy === b.sortBy &&
+    a.filterBy === b.filterBy &&
+    a.deadlineWindow === b.deadlineWindow &&
+    sortedTags(a) === sortedTags(b)
+  );
+};
@@ -0,0 +1,71 @@
+import { Goal, StreakRecord } from '../storage/storage';
+import { utcToZonedTime } from './timezone';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Check whether a goal counts up from a start instant instead of down to a deadline
+ */
+export const isCountUp = (goal: Goal): boolean => {
+  return goal.kind === 'countUp';
+};
+
+/**
+ * Length of a recorded streak in milliseconds
+ */
+export const getStreakLength = (streak: StreakRecord): number => {
+  return Math.max(0, new Date(streak.endedAt).getTime() - new Date(streak.startedAt).getTime());
+};
+
+/**
+ * Time since the current run of a count-up tracker started
+ */
+export const getCurrentStreakLength = (goal: Goal, now: Date = new Date()): number => {
+  return Math.max(0, now.getTime() - new Date(goal.deadlineAt).getTime());
+};
+
+/**
+ * Longest run of a count-up tracker, including the one still running
+ * @returns number - Length in milliseconds
+ */
+export const getLongestStreakLength = (goal: Goal, now: Date = new Date()): number => {
+  return (goal.streaks ?? []).reduce(
+    (longest, streak) => Math.max(longest, getStreakLength(streak)),
+    getCurrentStreakLength(goal, now)
+  );
+};
+
+/**
+ * Changes that end the current run of a count-up tracker and start a new one now
+ * The ended run is kept in the goal's streaks
+ * @param goal - Count-up tracker to reset
+ * @returns Partial<Goal> - Changes to store with GoalStorage.updateGoal
+ */
+export const resetStreak = (goal: Goal, now: Date = new Date()): Partial<Goal> => {
+  const { date, time } = utcToZonedTime(now, goal.timeZone);
+  return {
+    deadlineDate: date,
+    deadlineTime: time,
+    deadlineAt: now.toISOString(),
+    streaks: [...(goal.streaks ?? []), { startedAt: goal.deadlineAt, endedAt: now.toISOString() }],
+  };
+};
+
+/**
+ * Readable streak length, e.g. "45d 3h", "5h 12m" or "8m"
+ */
+export const formatStreakLength = (ms: number): string => {
+  const days = Math.floor(ms / DAY_MS);
+  const hours = Math.floor((ms % DAY_MS) / HOUR_MS);
+  const minutes = Math.floor((ms % HOUR_MS) / MINUTE_MS);
+
+  if (days > 0) {
+    return `${days}d ${hours}h`;
+  }
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return `${minutes}m`;
+};
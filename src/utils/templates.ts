@@ -0,0 +1,167 @@
+import { Goal } from '../storage/storage';
+import { GoalTemplate } from '../storage/templates';
+import { GoalFormValues } from './validation';
+import { DEFAULT_REMINDER_OFFSETS } from './reminders';
+import { addDays, getDaysBetween, normalizeRecurrenceRule } from './recurrence';
+import { utcToZonedTime, zonedTimeToUtc } from './timezone';
+import { isCountUp } from './streaks';
+import { getGoalStartAt } from './progress';
+
+// Used when a template is saved before a deadline was picked
+const DEFAULT_DEADLINE_OFFSET_DAYS = 7;
+const DEFAULT_DEADLINE_TIME = '18:00';
+
+/**
+ * Readable relative deadline of a template
+ * @returns string - e.g. "+14 days at 18:00", or "Today at 18:00"
+ */
+export const describeRelativeDeadline = (template: GoalTemplate): string => {
+  const { deadlineOffsetDays: days, deadlineTime } = template;
+  if (days === 0) {
+    return `Today at ${deadlineTime}`;
+  }
+  return `+${days} day${days === 1 ? '' : 's'} at ${deadlineTime}`;
+};
+
+/**
+ * Build a template from the goal form
+ * The deadline is kept as a number of days from today in the form's time zone
+ * @param id - Template ID
+ * @param name - Template name
+ * @param values - Current form values
+ * @returns GoalTemplate - Template ready to be stored
+ */
+export const createTemplateFromForm = (
+  id: string,
+  name: string,
+  values: GoalFormValues,
+  now: Date = new Date()
+): GoalTemplate => {
+  const today = utcToZonedTime(now, values.timeZone).date;
+  const deadlineOffsetDays = values.deadlineDate
+    ? Math.max(0, getDaysBetween(today, values.deadlineDate))
+    : DEFAULT_DEADLINE_OFFSET_DAYS;
+
+  return {
+    id,
+    name: name.trim(),
+    title: values.title.trim(),
+    description: values.description.trim() || undefined,
+    tags: values.tags,
+    reminderOffsets: values.reminderOffsets,
+    countdownMode: values.countdownMode,
+    targetValue: values.targetValue.trim() ? Number(values.targetValue) : undefined,
+    unit: values.unit.trim() || undefined,
+    deadlineOffsetDays,
+    deadlineTime: values.deadlineTime || DEFAULT_DEADLINE_TIME,
+    createdAt: now.toISOString(),
+  };
+};
+
+/**
+ * Fill the goal form from a template
+ * The relative deadline is resolved against today in the given time zone
+ * @param template - Template to apply
+ * @param timeZone - IANA time zone the new goal is created in
+ * @returns GoalFormValues - Pre-filled form values
+ */
+export const applyTemplate = (
+  template: GoalTemplate,
+  timeZone: string,
+  now: Date = new Date()
+): GoalFormValues => {
+  const today = utcToZonedTime(now, timeZone).date;
+
+  return {
+    kind: 'countdown',
+    title: template.title,
+    description: template.description ?? '',
+    deadlineDate: addDays(today, template.deadlineOffsetDays),
+    deadlineTime: template.deadlineTime,
+    timeZone,
+    startDate: '',
+    recurrence: null,
+    milestones: [],
+    tags: template.tags,
+    reminderOffsets: template.reminderOffsets ?? DEFAULT_REMINDER_OFFSETS,
+    countdownMode: template.countdownMode ?? 'calendar',
+    targetValue: template.targetValue?.toString() ?? '',
+    unit: template.unit ?? '',
+    dependsOn: [],
+  };
+};
+
+/**
+ * Copy a goal as a fresh, active goal
+ * The copy starts today and is due as many days from now as the original's deadline was from its start,
+ * so it gets the same lead time; milestones keep their distance to the deadline
+ * A copy whose deadline time has already passed today moves to the next day, so it never starts expired
+ * A copy of a count-up tracker starts counting now, without the original's streaks
+ * @param goal - Goal to copy
+ * @param id - ID of the copy
+ * @returns Goal - New goal without history, notifications, past occurrences or logged progress
+ */
+export const duplicateGoal = (goal: Goal, id: string, now: Date = new Date()): Goal => {
+  const createdAt = now.toISOString();
+  const today = utcToZonedTime(now, goal.timeZone).date;
+
+  if (isCountUp(goal)) {
+    const { date, time } = utcToZonedTime(now, goal.timeZone);
+    return {
+      id,
+      kind: 'countUp',
+      title: goal.title,
+      description: goal.description,
+      deadlineDate: date,
+      deadlineTime: time,
+      deadlineAt: createdAt,
+      timeZone: goal.timeZone,
+      createdAt,
+      status: 'active',
+      statusChangedAt: createdAt,
+      tags: goal.tags,
+    };
+  }
+
+  const originalStartDate = utcToZonedTime(new Date(getGoalStartAt(goal)), goal.timeZone).date;
+  const leadDays = Math.max(0, getDaysBetween(originalStartDate, goal.deadlineDate));
+  const leadDeadlineDate = addDays(today, leadDays);
+  // A same-day copy whose deadline time has already passed today is due at that time tomorrow instead
+  const deadlineDate =
+    zonedTimeToUtc(leadDeadlineDate, goal.deadlineTime, goal.timeZone).getTime() > now.getTime()
+      ? leadDeadlineDate
+      : addDays(leadDeadlineDate, 1);
+  const shiftDays = getDaysBetween(goal.deadlineDate, deadlineDate);
+  const startDate = goal.startDate ? today : undefined;
+  const milestones = goal.milestones?.map(milestone => {
+    const milestoneDate = addDays(milestone.deadlineDate, shiftDays);
+    return {
+      ...milestone,
+      deadlineDate: milestoneDate,
+      deadlineAt: zonedTimeToUtc(milestoneDate, milestone.deadlineTime, goal.timeZone).toISOString(),
+      done: false,
+    };
+  });
+
+  return {
+    id,
+    title: goal.title,
+    description: goal.description,
+    deadlineDate,
+    deadlineTime: goal.deadlineTime,
+    deadlineAt: zonedTimeToUtc(deadlineDate, goal.deadlineTime, goal.timeZone).toISOString(),
+    timeZone: goal.timeZone,
+    startDate,
+    createdAt,
+    status: 'active',
+    statusChangedAt: createdAt,
+    recurrence: goal.recurrence ? normalizeRecurrenceRule(goal.recurrence, deadlineDate) : undefined,
+    milestones,
+    tags: goal.tags,
+    reminderOffsets: goal.reminderOffsets,
+    countdownMode: goal.countdownMode,
+    targetValue: goal.targetValue,
+    unit: goal.unit,
+    dependsOn: goal.dependsOn,
+  };
+};
@@ -0,0 +1,148 @@
+/**
+ * Time zone helpers built on the Intl API
+ * Converts between wall-clock date/time strings in an IANA zone and absolute instants
+ * No third-party date libraries - offsets are derived manually from Intl.DateTimeFormat
+ */
+
+/**
+ * Get the IANA time zone the device is currently in
+ */
+export const getDeviceTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch (error) {
+    return 'UTC';
+  }
+};
+
+/**
+ * Check whether a string is an IANA time zone the Intl API knows
+ * @param timeZone - Candidate zone name, e.g. from a calendar file
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// Offset formatters by time zone - building an Intl.DateTimeFormat is far slower than using one
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Get the formatter that reads the wall clock of a time zone, creating it on first use
+ * @throws RangeError if the time zone is unknown
+ */
+const getOffsetFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = offsetFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    offsetFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Get the UTC offset of a time zone at a given instant
+ * @param timestamp - Instant in milliseconds since epoch
+ * @param timeZone - IANA time zone name
+ * @returns number - Offset in milliseconds (positive east of UTC)
+ */
+export const getTimeZoneOffset = (timestamp: number, timeZone: string): number => {
+  const formatter = getOffsetFormatter(timeZone);
+  const parts = formatter.formatToParts(new Date(timestamp));
+  const getPart = (type: string): number =>
+    Number(parts.find(part => part.type === type)?.value ?? 0);
+
+  // Wall-clock time in the zone, read back as if it were UTC
+  const zonedAsUtc = Date.UTC(
+    getPart('year'),
+    getPart('month') - 1,
+    getPart('day'),
+    getPart('hour') % 24,
+    getPart('minute'),
+    getPart('second')
+  );
+
+  // Intl drops milliseconds, so compare against the whole second
+  return zonedAsUtc - Math.floor(timestamp / 1000) * 1000;
+};
+
+/**
+ * Convert a wall-clock date and time in a time zone to an absolute instant
+ * @param date - YYYY-MM-DD format
+ * @param time - HH:MM format (24-hour)
+ * @param timeZone - IANA time zone the date and time are expressed in
+ * @returns Date - The matching instant
+ */
+export const zonedTimeToUtc = (date: string, time: string, timeZone: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+
+  try {
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute, 0, 0);
+
+    // First guess uses the offset at the wall-clock time, then correct once
+    // in case the instant lands on the other side of a DST transition
+    const offset = getTimeZoneOffset(wallClock, timeZone);
+    let instant = wallClock - offset;
+    const correctedOffset = getTimeZoneOffset(instant, timeZone);
+    if (correctedOffset !== offset) {
+      instant = wallClock - correctedOffset;
+    }
+
+    return new Date(instant);
+  } catch (error) {
+    // Unknown zone - fall back to the device's local time
+    console.error(`Error converting time in zone ${timeZone}:`, error);
+    return new Date(year, month - 1, day, hour, minute, 0, 0);
+  }
+};
+
+/**
+ * Convert an absolute instant to the wall-clock date and time of a time zone
+ * @param instant - The instant to convert
+ * @param timeZone - IANA time zone to read the wall clock in
+ * @returns { date, time } - YYYY-MM-DD and HH:MM (24-hour) strings
+ */
+export const utcToZonedTime = (instant: Date, timeZone: string): { date: string; time: string } => {
+  const wallClock = new Date(instant.getTime() + getTimeZoneOffset(instant.getTime(), timeZone));
+  const iso = wallClock.toISOString();
+  return { date: iso.slice(0, 10), time: iso.slice(11, 16) };
+};
+
+/**
+ * Format an instant as it reads on the wall clock of a time zone
+ * @param instant - The instant to format
+ * @param timeZone - IANA time zone to display it in
+ * @returns string - e.g. "Fri, Oct 23, 2026 at 5:00 PM"
+ */
+export const formatInTimeZone = (instant: Date, timeZone: string): string => {
+  const dateStr = instant.toLocaleDateString('en-US', {
+    timeZone,
+    weekday: 'short',
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+
+  const timeStr = instant.toLocaleTimeString('en-US', {
+    timeZone,
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+  });
+
+  return `${dateStr} at ${timeStr}`;
+};
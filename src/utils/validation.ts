@@ -0,0 +1,145 @@
+import { CountdownMode, GoalKind, RecurrenceRule } from '../storage/storage';
+import { zonedTimeToUtc } from './timezone';
+
+/**
+ * Editable milestone row in the goal form
+ */
+export interface MilestoneFormValues {
+  id: string;
+  title: string;
+  deadlineDate: string; // YYYY-MM-DD format
+  deadlineTime: string; // HH:MM format (24-hour)
+  done: boolean;
+}
+
+/**
+ * Form values shared by the create and edit goal screens
+ */
+export interface GoalFormValues {
+  kind: GoalKind;
+  title: string;
+  description: string;
+  deadlineDate: string; // YYYY-MM-DD format, the date counted from for count-up trackers
+  deadlineTime: string; // HH:MM format (24-hour)
+  timeZone: string; // IANA time zone the date and time are expressed in
+  startDate: string; // YYYY-MM-DD format, empty to count from when the goal was created
+  recurrence: RecurrenceRule | null; // null for one-off goals
+  milestones: MilestoneFormValues[];
+  tags: string[];
+  reminderOffsets: number[]; // Minutes before the deadline
+  countdownMode: CountdownMode;
+  targetValue: string; // Number as typed, empty for goals without a target
+  unit: string;
+  dependsOn: string[]; // IDs of goals this goal waits on
+}
+
+export interface ValidationResult {
+  isValid: boolean;
+  errors: string[];
+}
+
+/**
+ * Validate goal form inputs
+ * Used by both CreateGoalScreen and EditGoalScreen so the rules stay identical
+ * Count-up trackers need a start in the past instead of a deadline in the future
+ * @param values - Form values
+ * @param storedDeadlineAt - Deadline of the goal being edited; keeping it is allowed even once it has passed
+ */
+export const validateGoalForm = (values: GoalFormValues, storedDeadlineAt?: string): ValidationResult => {
+  const { title, deadlineDate, deadlineTime, timeZone } = values;
+  const now = new Date();
+  const errors: string[] = [];
+  const keepsStoredDeadline = storedDeadlineAt !== undefined && !!deadlineDate && !!deadlineTime &&
+    zonedTimeToUtc(deadlineDate, deadlineTime, timeZone).getTime() === new Date(storedDeadlineAt).getTime();
+
+  // Title validation
+  if (!title.trim()) {
+    errors.push('Title is required');
+  } else if (title.trim().length < 3) {
+    errors.push('Title must be at least 3 characters long');
+  }
+
+  // Count-up trackers only need a start that has already happened
+  if (values.kind === 'countUp') {
+    if (!deadlineDate || !deadlineTime) {
+      errors.push('Start date and time are required');
+    } else if (zonedTimeToUtc(deadlineDate, deadlineTime, timeZone) > now) {
+      errors.push('Start cannot be in the future');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  // Date validation
+  if (!deadlineDate) {
+    errors.push('Deadline date is required');
+  } else if (!keepsStoredDeadline) {
+    // Check if date is in the past (the whole day has already ended in the goal's zone)
+    const endOfSelectedDay = zonedTimeToUtc(deadlineDate, '23:59', timeZone);
+
+    if (endOfSelectedDay <= now) {
+      errors.push('Deadline date cannot be in the past');
+    }
+  }
+
+  // Time validation
+  if (!deadlineTime) {
+    errors.push('Deadline time is required');
+  } else {
+    // If date is today, check if time is in the past
+    if (deadlineDate && !keepsStoredDeadline) {
+      const selectedDateTime = zonedTimeToUtc(deadlineDate, deadlineTime, timeZone);
+
+      if (selectedDateTime <= now) {
+        errors.push('Deadline time cannot be in the past');
+      }
+    }
+  }
+
+  // Start date validation
+  if (values.startDate && deadlineDate && deadlineTime) {
+    const startAt = zonedTimeToUtc(values.startDate, '00:00', timeZone);
+
+    if (startAt >= zonedTimeToUtc(deadlineDate, deadlineTime, timeZone)) {
+      errors.push('Start date must be before the deadline');
+    }
+  }
+
+  // Target validation
+  if (values.targetValue.trim()) {
+    const target = Number(values.targetValue);
+    if (isNaN(target) || target <= 0) {
+      errors.push('Target must be a number greater than zero');
+    }
+  } else if (values.unit.trim()) {
+    errors.push('Enter a target value for the unit');
+  }
+
+  // Milestone validation
+  values.milestones.forEach((milestone, index) => {
+    const label = `Milestone ${index + 1}`;
+
+    if (!milestone.title.trim()) {
+      errors.push(`${label}: title is required`);
+    }
+
+    if (!milestone.deadlineDate || !milestone.deadlineTime) {
+      errors.push(`${label}: deadline date and time are required`);
+    } else if (deadlineDate && deadlineTime) {
+      const milestoneDeadline = zonedTimeToUtc(milestone.deadlineDate, milestone.deadlineTime, timeZone);
+      const finalDeadline = zonedTimeToUtc(deadlineDate, deadlineTime, timeZone);
+
+      if (milestoneDeadline > finalDeadline) {
+        errors.push(`${label}: deadline cannot be after the goal deadline`);
+      }
+    }
+  });
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+};
@@ -0,0 +1,132 @@
+import { CountdownMode } from '../storage/storage';
+import { WorkSchedule } from '../storage/settings';
+import { WEEKDAY_NAMES, addDays, getDaysBetween } from './recurrence';
+import { utcToZonedTime, zonedTimeToUtc } from './timezone';
+
+// Schedule and days off a working-time countdown is measured against
+export interface WorkingCalendar {
+  schedule: WorkSchedule;
+  holidays: string[]; // YYYY-MM-DD dates
+  timeZone: string; // Zone the schedule's hours and the holiday dates are read in
+}
+
+export const COUNTDOWN_MODE_LABELS: Record<CountdownMode, string> = {
+  calendar: 'Calendar time',
+  businessDays: 'Business days',
+  workingHours: 'Working hours',
+};
+
+/**
+ * Check whether a calendar date is a working day of the schedule and not a holiday
+ */
+export const isWorkingDay = (date: string, calendar: WorkingCalendar): boolean => {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return calendar.schedule.weekdays.includes(weekday) && !calendar.holidays.includes(date);
+};
+
+/**
+ * Count the working days from one calendar date to another, both included
+ * Whole weeks are counted at once, so the cost doesn't grow with the distance
+ * @param firstDate - YYYY-MM-DD
+ * @param lastDate - YYYY-MM-DD
+ */
+const countWorkingDays = (firstDate: string, lastDate: string, calendar: WorkingCalendar): number => {
+  const dayCount = getDaysBetween(firstDate, lastDate) + 1;
+  if (dayCount <= 0) {
+    return 0;
+  }
+
+  const fullWeeks = Math.floor(dayCount / 7);
+  let count = fullWeeks * new Set(calendar.schedule.weekdays).size;
+  for (let date = addDays(firstDate, fullWeeks * 7); date <= lastDate; date = addDays(date, 1)) {
+    if (calendar.schedule.weekdays.includes(new Date(`${date}T00:00:00Z`).getUTCDay())) {
+      count++;
+    }
+  }
+
+  // Holidays only take away days the schedule would otherwise work
+  const holidaysInRange = new Set(
+    calendar.holidays.filter(date => date >= firstDate && date <= lastDate)
+  );
+  holidaysInRange.forEach(date => {
+    if (calendar.schedule.weekdays.includes(new Date(`${date}T00:00:00Z`).getUTCDay())) {
+      count--;
+    }
+  });
+  return count;
+};
+
+/**
+ * Length of one working day of the schedule in milliseconds
+ */
+const getWorkingDayLength = (schedule: WorkSchedule): number => {
+  const toMinutes = (time: string): number => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  };
+  return Math.max(0, toMinutes(schedule.endTime) - toMinutes(schedule.startTime)) * 60 * 1000;
+};
+
+/**
+ * Count the working days after today up to and including the deadline's day
+ * e.g. from a Friday to the next Wednesday is 3 working days
+ * @param from - Current time
+ * @param to - Deadline
+ * @returns number - Working days left, 0 when the deadline is today or has passed
+ */
+export const countBusinessDays = (from: Date, to: Date, calendar: WorkingCalendar): number => {
+  if (to.getTime() <= from.getTime()) {
+    return 0;
+  }
+
+  const fromDate = utcToZonedTime(from, calendar.timeZone).date;
+  const lastDate = utcToZonedTime(to, calendar.timeZone).date;
+  return countWorkingDays(addDays(fromDate, 1), lastDate, calendar);
+};
+
+/**
+ * Add up the working hours between two instants
+ * The first and last days contribute the part of their schedule that falls between them,
+ * every working day in between a full working day
+ * @param from - Current time
+ * @param to - Deadline
+ * @returns number - Working time left in milliseconds
+ */
+export const getWorkingMilliseconds = (from: Date, to: Date, calendar: WorkingCalendar): number => {
+  if (to.getTime() <= from.getTime()) {
+    return 0;
+  }
+
+  const { schedule, timeZone } = calendar;
+  const getWorkingPart = (date: string): number => {
+    if (!isWorkingDay(date, calendar)) {
+      return 0;
+    }
+    const start = Math.max(zonedTimeToUtc(date, schedule.startTime, timeZone).getTime(), from.getTime());
+    const end = Math.min(zonedTimeToUtc(date, schedule.endTime, timeZone).getTime(), to.getTime());
+    return Math.max(0, end - start);
+  };
+
+  const fromDate = utcToZonedTime(from, timeZone).date;
+  const lastDate = utcToZonedTime(to, timeZone).date;
+  if (fromDate === lastDate) {
+    return getWorkingPart(fromDate);
+  }
+
+  const fullDays = countWorkingDays(addDays(fromDate, 1), addDays(lastDate, -1), calendar);
+  return getWorkingPart(fromDate) + fullDays * getWorkingDayLength(schedule) + getWorkingPart(lastDate);
+};
+
+/**
+ * Short form of a schedule, e.g. "Sun–Thu 09:00–17:00" or "Mon, Wed, Fri 09:00–13:00"
+ */
+export const describeWorkSchedule = (schedule: WorkSchedule): string => {
+  const weekdays = [...schedule.weekdays].sort((a, b) => a - b);
+  const isRange = weekdays.length > 2 && weekdays.every((day, index) => index === 0 || day === weekdays[index - 1] + 1);
+  const days = weekdays.length === 0
+    ? 'No days'
+    : isRange
+      ? `${WEEKDAY_NAMES[weekdays[0]]}–${WEEKDAY_NAMES[weekdays[weekdays.length - 1]]}`
+      : weekdays.map(day => WEEKDAY_NAMES[day]).join(', ');
+  return `${days} ${schedule.startTime}–${schedule.endTime}`;
+};